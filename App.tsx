@@ -18,22 +18,58 @@ import {
   Maximize2
 } from 'lucide-react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
 } from 'recharts';
 import { 
-  MappingType, ReplacementPolicy, SensorData, CacheBlock, MetricPoint 
+  MappingType, ReplacementPolicy, SensorData, MetricPoint, AccessRecord,
+  AccessKind, WriteHitPolicy, WriteMissPolicy, CacheLevelConfig, HierarchyConfig, InclusionPolicy,
+  HierarchyResult, TraceRecord, CacheConfig, ComparisonStats, MissType, WorkloadConfig, SessionSettings, SavedSession,
+  Alert, AlertRule, AlertSeverity, EnergyCosts, PrefetcherType, CoherenceConfig, CoherenceProtocol,
+  FreshnessConfig, FreshnessMode, LatencyConfig, LatencySpread, TierLatency
 } from './types';
 import { CacheSimulationEngine } from './services/simulationEngine';
-import { COLORS, CACHE_SIZES, HIT_TIME, MISS_PENALTY } from './constants';
+import { simulateTrace } from './services/batchSimulator';
+import { CacheSimulator } from './services/cacheSimulator';
+import { ConfigComparison } from './services/configComparison';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from './services/workloadGenerator';
+import {
+  createSessionId, deleteSession, getActiveSessionId, listSessions, loadSession, saveSession
+} from './services/sessionStore';
+import { decodeShareLink, encodeShareLink } from './services/shareLink';
+import { ADDRESS_ONLY_TYPE } from './services/traceParser';
+import { AlertEngine, worstSeverity } from './services/alertEngine';
+import { DEFAULT_ALERT_RULES } from './services/alertRules';
+import { TimeSeriesStore } from './services/timeSeriesStore';
+import { DEFAULT_ENERGY_COSTS, energyReport } from './services/energyModel';
+import { FeedOptions, FeedStats, FeedStatus, SensorFeed } from './services/sensorFeed';
+import { CoherentGateways } from './services/coherentGateways';
+import { DEFAULT_LATENCY, shelfTiming } from './services/latencyModel';
+import { profileTrace } from './services/reuseDistance';
+import { SlotAnalytics } from './services/slotAnalytics';
+import { 
+  COLORS, CACHE_SIZES, BLOCK_SIZES, DEFAULT_SEED,
+  GATEWAY_SIZES, GATEWAY_HIT_TIME, SENSOR_UNITS
+} from './constants';
+import { Card } from './components/Card';
+import { NumberField } from './components/NumberField';
+import { TraceReplayCard } from './components/TraceReplayCard';
+import { ComparisonCard } from './components/ComparisonCard';
+import { WorkloadCard } from './components/WorkloadCard';
+import { AddressSplit, formatAddress } from './components/AddressSplit';
+import { DebuggerCard } from './components/DebuggerCard';
+import { SessionsCard } from './components/SessionsCard';
+import { AlertsCard, SEVERITY_STYLES } from './components/AlertsCard';
+import { SensorHistoryCard } from './components/SensorHistoryCard';
+import { EnergyCard } from './components/EnergyCard';
+import { SeasonReplayCard } from './components/SeasonReplayCard';
+import { LiveFeedCard } from './components/LiveFeedCard';
+import { LatencyCard } from './components/LatencyCard';
+import { ReuseDistanceCard } from './components/ReuseDistanceCard';
+import { SlotActivityCard } from './components/SlotActivityCard';
+import { CoherenceCard } from './components/CoherenceCard';
 
 // --- Sub-Components ---
 
-const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = "" }) => (
-  <div className={`bg-white rounded-[20px] shadow-sm p-5 border border-gray-100 ${className}`}>
-    {children}
-  </div>
-);
-
 const MetricStat: React.FC<{ label: string; value: string | number; subValue?: string; icon: React.ReactNode; color: string }> = ({ label, value, subValue, icon, color }) => (
   <Card>
     <div className="flex justify-between items-start mb-2">
@@ -49,139 +85,481 @@ const MetricStat: React.FC<{ label: string; value: string | number; subValue?: s
   </Card>
 );
 
-// --- Demo Data Generator ---
-const generateMockSensor = (index: number): SensorData => {
-  const types = ['Moisture', 'Temperature', 'Humidity'];
-  const type = types[index % types.length];
-  const address = (index * 13) % 256;
-  const now = new Date();
-  now.setSeconds(now.getSeconds() - (100 - index) * 2);
-  
+const MAPPING_OPTIONS: { type: MappingType; label: string }[] = [
+  { type: MappingType.DIRECT, label: 'Simple Sorting' },
+  { type: MappingType.TWO_WAY, label: 'Smart Sorting' },
+  { type: MappingType.FOUR_WAY, label: 'Shelf Groups of 4' },
+  { type: MappingType.EIGHT_WAY, label: 'Shelf Groups of 8' },
+  { type: MappingType.FULLY_ASSOCIATIVE, label: 'Any Free Shelf' }
+];
+
+const MISS_CAUSES: { type: MissType; label: string; color: string }[] = [
+  { type: MissType.COMPULSORY, label: 'First Time Seen', color: 'bg-gray-400' },
+  { type: MissType.CAPACITY, label: 'Shelf Too Small', color: 'bg-orange-500' },
+  { type: MissType.CONFLICT, label: 'Shelf Collision', color: 'bg-red-500' }
+];
+
+// OPT needs the future, so it is only offered as the offline benchmark on the Health tab
+const POLICY_OPTIONS: { type: ReplacementPolicy; label: string }[] = [
+  { type: ReplacementPolicy.LRU, label: 'Remove Oldest Used' },
+  { type: ReplacementPolicy.FIFO, label: 'Remove First Entered' },
+  { type: ReplacementPolicy.LFU, label: 'Remove Least Popular' },
+  { type: ReplacementPolicy.PLRU, label: 'Quick Oldest Guess' },
+  { type: ReplacementPolicy.RANDOM, label: 'Random Pick' }
+];
+
+const PREFETCH_OPTIONS: { type: PrefetcherType; label: string }[] = [
+  { type: PrefetcherType.NONE, label: 'Only When Asked' },
+  { type: PrefetcherType.NEXT_LINE, label: 'Grab the Next Slot' },
+  { type: PrefetcherType.STRIDE, label: 'Follow Each Sensor\'s Step' },
+  { type: PrefetcherType.SCHEDULE, label: 'Learn the Polling Schedule' }
+];
+
+const FRESHNESS_OPTIONS: { type: FreshnessMode; label: string }[] = [
+  { type: FreshnessMode.OFF, label: 'Readings Never Go Stale' },
+  { type: FreshnessMode.EXPIRE, label: 'Fetch Again Once Too Old' },
+  { type: FreshnessMode.REFRESH_AHEAD, label: 'Refresh Before Too Old' }
+];
+
+// Off by default, but ready with sensible limits: soil changes slowest, air fastest
+const DEFAULT_FRESHNESS: FreshnessConfig = {
+  mode: FreshnessMode.OFF,
+  ttl: { Moisture: 30 * 60, Temperature: 10 * 60, Humidity: 15 * 60 }
+};
+
+type HeatMetric = 'off' | 'uses' | 'evictions';
+
+const HEAT_OPTIONS: { type: HeatMetric; label: string }[] = [
+  { type: 'off', label: 'Contents' },
+  { type: 'uses', label: 'Busiest' },
+  { type: 'evictions', label: 'Most Pushed Out' }
+];
+
+const formatAge = (ms: number) =>
+  ms < 60_000 ? `${Math.floor(ms / 1000)} s` : ms < 3_600_000 ? `${Math.floor(ms / 60_000)} min` : `${(ms / 3_600_000).toFixed(1)} h`;
+
+const INCLUSION_OPTIONS: { type: InclusionPolicy; label: string }[] = [
+  { type: InclusionPolicy.INCLUSIVE, label: 'Keeps a Copy of the Shelf' },
+  { type: InclusionPolicy.EXCLUSIVE, label: 'Holds Only Shelf Leftovers' },
+  { type: InclusionPolicy.NINE, label: 'No Rule' }
+];
+
+const DEFAULT_GATEWAY: CacheLevelConfig = {
+  name: 'Gateway Buffer',
+  size: GATEWAY_SIZES[0],
+  mapping: MappingType.FOUR_WAY,
+  policy: ReplacementPolicy.LRU,
+  blockSize: 1,
+  writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+  writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+  seed: DEFAULT_SEED,
+  hitTime: GATEWAY_HIT_TIME,
+  inclusion: InclusionPolicy.NINE
+};
+
+const DEFAULT_COMPARISON: CacheConfig[] = [
+  { ...DEFAULT_GATEWAY, size: 8, mapping: MappingType.DIRECT },
+  { ...DEFAULT_GATEWAY, size: 8, mapping: MappingType.FOUR_WAY }
+];
+
+const DEFAULT_SETTINGS: SessionSettings = {
+  cache: {
+    size: 8,
+    mapping: MappingType.DIRECT,
+    policy: ReplacementPolicy.LRU,
+    blockSize: 1,
+    writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+    writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+    seed: DEFAULT_SEED,
+    prefetcher: PrefetcherType.NONE,
+    freshness: DEFAULT_FRESHNESS
+  },
+  gateway: null,
+  workload: DEFAULT_WORKLOAD,
+  comparison: DEFAULT_COMPARISON,
+  alertRules: DEFAULT_ALERT_RULES,
+  energyCosts: DEFAULT_ENERGY_COSTS,
+  coherence: { gateways: 2, protocol: CoherenceProtocol.MESI },
+  latency: DEFAULT_LATENCY
+};
+
+// Sessions saved before a setting existed pick up its default
+const withDefaults = (session: SavedSession): SavedSession => ({
+  ...session,
+  settings: {
+    ...DEFAULT_SETTINGS,
+    ...session.settings,
+    workload: { ...DEFAULT_WORKLOAD, ...session.settings.workload },
+    latency: { ...DEFAULT_LATENCY, ...session.settings.latency }
+  }
+});
+
+const SUGGESTION_LABELS: Record<AlertSeverity, string> = {
+  info: 'NOTE',
+  warning: 'CHECK',
+  critical: 'ACT NOW'
+};
+
+// Wait for a pause in activity before writing the session out
+const SAVE_DELAY_MS = 500;
+
+// How often, and how many, live readings move from the feed's queue into the cache
+const FEED_DRAIN_MS = 250;
+const FEED_BATCH = 100;
+
+const spreadOf = ({ distribution, deviation }: TierLatency): LatencySpread => ({ distribution, deviation });
+
+const buildHierarchyConfig = (cache: CacheConfig, gateway: CacheLevelConfig | null, latency: LatencyConfig): HierarchyConfig => ({
+  levels: [
+    { ...cache, name: 'Handy Shelf', hitTime: latency.shelf.mean, spread: spreadOf(latency.shelf), inclusion: InclusionPolicy.NINE },
+    // The gateway shares the shelf's line size so lines move between levels whole
+    ...(gateway ? [{ ...gateway, blockSize: cache.blockSize, hitTime: latency.gateway.mean, spread: spreadOf(latency.gateway) }] : [])
+  ],
+  memoryLatency: latency.warehouse.mean,
+  memorySpread: spreadOf(latency.warehouse),
+  latencySeed: latency.seed
+});
+
+const blankSession = (name: string, settings: SessionSettings): SavedSession => ({
+  id: createSessionId(),
+  name,
+  savedAt: Date.now(),
+  settings,
+  simulator: null,
+  accessHistory: [],
+  metricsHistory: [],
+  sessionTrace: [],
+  lastSensor: null
+});
+
+// A scenario link wins over the last active session, which wins over a fresh start
+const loadStartup = (): { session: SavedSession; fromLink: boolean } => {
+  const shared = decodeShareLink(window.location.hash, DEFAULT_SETTINGS, DEFAULT_GATEWAY);
+  const saved = shared ? null : loadSession(getActiveSessionId());
+  if (saved) return { session: withDefaults(saved), fromLink: false };
   return {
-    id: index + 100,
-    type,
-    value: type === 'Temperature' ? 22 + Math.random() * 5 : 45 + Math.random() * 10,
-    unit: type === 'Temperature' ? '°C' : '%',
-    timestamp: now.toLocaleTimeString(),
-    address
+    session: blankSession(shared ? 'Shared Scenario' : `Session ${listSessions().length + 1}`, shared ?? DEFAULT_SETTINGS),
+    fromLink: shared !== null
   };
 };
 
+// Readings that arrive together without a time of their own are backdated this far apart
+const SYNTHETIC_SPACING_MS = 2000;
+
+// Readings kept in the activity log, which is also what the ideal-cleaner card replays
+const ACCESS_HISTORY_LIMIT = 100;
+
 // Generate a larger pool of demo data for better history visualization
-const initialDemoData = Array.from({ length: 80 }, (_, i) => generateMockSensor(i));
+const DEMO_START = Date.now();
+const demoTime = (i: number) => DEMO_START - (100 - i) * SYNTHETIC_SPACING_MS;
+const initialDemoData = new WorkloadGenerator(DEFAULT_WORKLOAD).take(80).map(({ sensor, kind }, i): TraceRecord => ({
+  sensor: { ...sensor, timestamp: new Date(demoTime(i)).toLocaleTimeString() },
+  kind
+}));
 
 // --- Main App ---
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<'overview' | 'readings' | 'storage' | 'efficiency'>('overview');
   
+  const [startup] = useState(loadStartup);
+  const { settings: initial } = startup.session;
+  const [sessionId, setSessionId] = useState(startup.session.id);
+  const [sessionName, setSessionName] = useState(startup.session.name);
+  const [savedSessions, setSavedSessions] = useState(listSessions);
+  const [saveFailed, setSaveFailed] = useState(false);
+
   // Storage Config
-  const [cacheSize, setCacheSize] = useState<number>(8);
-  const [mappingType, setMappingType] = useState<MappingType>(MappingType.DIRECT);
-  const [replacementPolicy, setReplacementPolicy] = useState<ReplacementPolicy>(ReplacementPolicy.LRU);
+  const [cacheSize, setCacheSize] = useState<number>(initial.cache.size);
+  const [mappingType, setMappingType] = useState<MappingType>(initial.cache.mapping);
+  const [replacementPolicy, setReplacementPolicy] = useState<ReplacementPolicy>(initial.cache.policy);
+  const [blockSize, setBlockSize] = useState<number>(initial.cache.blockSize);
+  const [writeHitPolicy, setWriteHitPolicy] = useState<WriteHitPolicy>(initial.cache.writeHitPolicy);
+  const [writeMissPolicy, setWriteMissPolicy] = useState<WriteMissPolicy>(initial.cache.writeMissPolicy);
+  const [policySeed, setPolicySeed] = useState<number>(initial.cache.seed);
+  const [prefetcher, setPrefetcher] = useState<PrefetcherType>(initial.cache.prefetcher ?? PrefetcherType.NONE);
+  const [freshness, setFreshness] = useState<FreshnessConfig>(initial.cache.freshness ?? DEFAULT_FRESHNESS);
+  const [gatewayLevel, setGatewayLevel] = useState<CacheLevelConfig | null>(initial.gateway);
+  const [latencyConfig, setLatencyConfig] = useState<LatencyConfig>(initial.latency);
+
+  const cacheConfig = useMemo(() => ({
+    size: cacheSize,
+    mapping: mappingType,
+    policy: replacementPolicy,
+    blockSize,
+    writeHitPolicy,
+    writeMissPolicy,
+    seed: policySeed,
+    prefetcher,
+    freshness
+  }), [cacheSize, mappingType, replacementPolicy, blockSize, writeHitPolicy, writeMissPolicy, policySeed, prefetcher, freshness]);
+
+  const hierarchyConfig = useMemo(
+    () => buildHierarchyConfig(cacheConfig, gatewayLevel, latencyConfig),
+    [cacheConfig, gatewayLevel, latencyConfig]
+  );
+
+  // One simulator for the whole session; config changes are applied to it, not rebuilt around it
+  const [simulator] = useState(() => {
+    const restored = new CacheSimulator(hierarchyConfig);
+    if (startup.session.simulator) restored.load(hierarchyConfig, startup.session.simulator);
+    return restored;
+  });
+  const engine = simulator.getEngine(0);
+  const caches = simulator.state;
+  const cache = caches[0];
   
   // Graph Controls
   const [historyScale, setHistoryScale] = useState<number>(15);
   const historyOptions = [5, 10, 15, 25, 50, 75];
 
-  // Simulation State with Demo Data
-  const [cache, setCache] = useState<CacheBlock[]>(() => {
-    const empty = CacheSimulationEngine.createEmptyCache(8);
-    // Pre-fill some slots for demo
-    initialDemoData.slice(-5).forEach((data, i) => {
-      empty[i] = {
-        id: i,
-        tag: Math.floor(data.address / 8),
-        data: data,
-        lastUsed: i + 1,
-        insertedAt: i + 1,
-        isDirty: false
-      };
-    });
-    return empty;
-  });
-
-  const [accessHistory, setAccessHistory] = useState<{address: number, hit: boolean}[]>(() => 
-    initialDemoData.map((d, i) => ({ address: d.address, hit: i % 3 !== 0 }))
+  const [accessHistory, setAccessHistory] = useState<AccessRecord[]>(startup.session.accessHistory);
+  const [lastSensor, setLastSensor] = useState<SensorData | null>(
+    startup.session.simulator ? startup.session.lastSensor : initialDemoData[initialDemoData.length - 1].sensor
   );
-
-  const [lastSensor, setLastSensor] = useState<SensorData | null>(initialDemoData[initialDemoData.length - 1]);
-  
-  const [metricsHistory, setMetricsHistory] = useState<MetricPoint[]>(() => {
-    let hits = 0;
-    return initialDemoData.map((d, i) => {
-      if (i % 3 !== 0) hits++;
-      const ratio = (hits / (i + 1)) * 100;
-      return {
-        time: d.timestamp,
-        hitRatio: Number(ratio.toFixed(1)),
-        amat: Number((HIT_TIME + ((1 - (ratio / 100)) * MISS_PENALTY)).toFixed(1))
-      };
-    });
-  });
+  const [metricsHistory, setMetricsHistory] = useState<MetricPoint[]>(startup.session.metricsHistory);
 
   const [autoSimulate, setAutoSimulate] = useState(false);
+  // A new config restarts the live stream from its seed
+  const [workloadConfig, setWorkloadConfig] = useState<WorkloadConfig>(initial.workload);
+  const workload = useMemo(() => new WorkloadGenerator(workloadConfig), [workloadConfig]);
+  const { network } = workload;
+  const [feed] = useState(() => new SensorFeed(network));
+  const [slotAnalytics] = useState(() => new SlotAnalytics(cacheConfig, network));
+  const [heatMetric, setHeatMetric] = useState<HeatMetric>('off');
+  const [feedStatus, setFeedStatus] = useState<{ status: FeedStatus; retryInMs: number | null }>({ status: 'idle', retryInMs: null });
+  const [feedStats, setFeedStats] = useState<FeedStats | null>(null);
+  const [sessionTrace, setSessionTrace] = useState<TraceRecord[]>(startup.session.sessionTrace);
+  const [comparisonSetups, setComparisonSetups] = useState<CacheConfig[]>(initial.comparison);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(initial.alertRules);
+  const [alertEngine] = useState(() => new AlertEngine(initial.alertRules));
+  const [alerts, setAlerts] = useState<{ active: Alert[]; history: Alert[] }>({ active: [], history: [] });
+  const [timeSeries] = useState(() => new TimeSeriesStore());
+  const [energyCosts, setEnergyCosts] = useState<EnergyCosts>(initial.energyCosts);
+  const [comparisonHistory, setComparisonHistory] = useState<{ time: string; stats: ComparisonStats[] }[]>([]);
+  const comparison = useMemo(() => new ConfigComparison(comparisonSetups), [comparisonSetups]);
+  const timing = useMemo(() => shelfTiming(latencyConfig), [latencyConfig]);
+  const [coherenceConfig, setCoherenceConfig] = useState<CoherenceConfig>(initial.coherence);
+  // Rebuilt from empty whenever the gateways' setup or the shelf settings they copy change;
+  // freshness and prefetching never reach the gateways, so toggling them keeps the run
+  const coherence = useMemo(
+    () => new CoherentGateways(coherenceConfig, cacheConfig),
+    [coherenceConfig, cacheSize, mappingType, replacementPolicy, blockSize, writeHitPolicy, writeMissPolicy, policySeed]
+  );
+  const [replay, setReplay] = useState<{ records: TraceRecord[]; position: number; intervalMs: number } | null>(null);
   const [highlightBlock, setHighlightBlock] = useState<number | null>(null);
 
+  const settings = useMemo((): SessionSettings => ({
+    cache: cacheConfig,
+    gateway: gatewayLevel,
+    workload: workloadConfig,
+    comparison: comparisonSetups,
+    alertRules,
+    energyCosts,
+    coherence: coherenceConfig,
+    latency: latencyConfig
+  }), [cacheConfig, gatewayLevel, workloadConfig, comparisonSetups, alertRules, energyCosts, coherenceConfig, latencyConfig]);
+  const shareUrl = `${window.location.origin}${window.location.pathname}#${encodeShareLink(settings)}`;
+
   // Stats
-  const hitCount = accessHistory.filter(a => a.hit).length;
-  const hitRatio = accessHistory.length > 0 ? (hitCount / accessHistory.length) * 100 : 0;
-  const amat = HIT_TIME + ((1 - (hitRatio / 100)) * MISS_PENALTY);
-
-  // Generate Sensor Data
-  const generateSensorData = useCallback((): SensorData => {
-    const types = ['Moisture', 'Temperature', 'Humidity'];
-    const type = types[Math.floor(Math.random() * types.length)];
-    const id = Math.floor(Math.random() * 50);
-    const address = Math.floor(Math.random() * 256); 
-
-    let value = 0;
-    let unit = '';
-    if (type === 'Moisture') { value = 30 + Math.random() * 40; unit = '%'; }
-    else if (type === 'Temperature') { value = 18 + Math.random() * 15; unit = '°C'; }
-    else { value = 40 + Math.random() * 30; unit = '%'; }
+  const stats = simulator.getStats();
+  const { hitRatio, levelStats, amat, missTypes: missTotals } = stats;
+  const lastLocation = accessHistory[0] ? network.locate(accessHistory[0].address) : null;
+  const energy = energyReport(stats.energy, stats.accesses, energyCosts);
+  const wateringSeverity = worstSeverity(alerts.active, 'watering');
+  const cropSeverity = worstSeverity(alerts.active, 'crop');
+  const levelHitRatio = (level: number) =>
+    levelStats[level]?.accesses > 0 ? (levelStats[level].hits / levelStats[level].accesses) * 100 : 0;
+  // Accuracy: share of prefetched lines that got used. Coverage: share of would-be misses a prefetch turned into hits
+  const prefetchStats = stats.prefetch;
+  const prefetchAccuracy = prefetchStats.issued > 0 ? (prefetchStats.useful / prefetchStats.issued) * 100 : 0;
+  const demandMisses = stats.accesses - stats.hits;
+  const prefetchCoverage = prefetchStats.useful + demandMisses > 0 ? (prefetchStats.useful / (prefetchStats.useful + demandMisses)) * 100 : 0;
+  const freshnessStats = stats.freshness;
+  // Slot ages are measured against the moment of this render
+  const renderedAt = Date.now();
+  const slotActivity = slotAnalytics.getSlots();
+  const heatOf = (slot: number) =>
+    heatMetric === 'evictions' ? slotActivity[slot].evictions : slotActivity[slot].hits + slotActivity[slot].fills;
+  const maxHeat = Math.max(1, ...slotActivity.map((_, slot) => heatOf(slot)));
+
+  const totalMisses = Object.values(missTotals).reduce((sum, n) => sum + n, 0);
+  const missAdvice =
+    missTotals[MissType.CONFLICT] > missTotals[MissType.CAPACITY]
+      ? 'Readings collide on the same shelves: a wider sorting style (more ways) helps most.'
+      : missTotals[MissType.CAPACITY] > 0
+        ? 'The shelf is simply too small for this traffic: more capacity helps most.'
+        : 'Only first-time readings are missing so far.';
 
+  // Replay the recent activity log offline to see how far the live policy is from Belady's optimum.
+  // Only the shelf is replayed: the gateway sees a different stream and OPT there is a separate question
+  const idealComparison = useMemo(() => {
+    const trace = [...accessHistory].reverse().map(({ address, kind }) => ({ address, kind }));
+    if (trace.length === 0) {
+      const none = simulateTrace(cacheConfig, trace, timing);
+      return { current: none, ideal: none };
+    }
     return {
-      id,
-      type,
-      value: Number(value.toFixed(1)),
-      unit,
-      timestamp: new Date().toLocaleTimeString(),
-      address
+      current: simulateTrace(cacheConfig, trace, timing),
+      ideal: simulateTrace({ ...cacheConfig, policy: ReplacementPolicy.OPT }, trace, timing)
     };
-  }, []);
+  }, [accessHistory, cacheConfig, timing]);
 
-  const handleAccess = useCallback(() => {
-    const sensor = generateSensorData();
-    const engine = new CacheSimulationEngine(cacheSize, mappingType, replacementPolicy);
-    const result = engine.access(sensor.address, sensor, cache);
-    
-    setLastSensor(sensor);
-    setCache(result.cache);
-    setAccessHistory(prev => [{ address: sensor.address, hit: result.hit }, ...prev].slice(0, 100));
-    setHighlightBlock(result.replacedId);
-    
-    setMetricsHistory(prev => {
-      const newHistory = [...prev];
-      const currentHits = accessHistory.filter(a => a.hit).length + (result.hit ? 1 : 0);
-      const totalCount = accessHistory.length + 1;
-      const newRatio = (currentHits / totalCount) * 100;
-      
-      newHistory.push({
-        time: sensor.timestamp,
-        hitRatio: Number(newRatio.toFixed(1)),
-        amat: Number((HIT_TIME + ((1 - (newRatio / 100)) * MISS_PENALTY)).toFixed(1))
-      });
-      return newHistory.slice(-100);
-    });
+  // One pass over the whole session gives the miss ratio of every shelf size
+  const reuseProfile = useMemo(
+    () => profileTrace(sessionTrace.map(({ sensor }) => sensor), blockSize),
+    [sessionTrace, blockSize]
+  );
+
+  // Feeds readings through the simulator in order; history and metrics follow from its events
+  const runReadings = useCallback((items: TraceRecord[]) => {
+    if (items.length === 0) return;
+
+    let lastResult: HierarchyResult | null = null;
+    const comparisonPoints: { time: string; stats: ComparisonStats[] }[] = [];
+    for (const [i, { sensor, kind, time }] of items.entries()) {
+      const takenAt = time ?? Date.now();
+      lastResult = simulator.access(sensor.address, sensor, kind, takenAt);
+      const setupStats = comparison.access(sensor.address, sensor, kind);
+      const location = network.locate(sensor.address);
+      coherence.access(sensor.address, sensor, kind, location?.zone.id ?? 0);
+      // Address-only records (din traces) hold no reading to judge or chart
+      if (sensor.type !== ADDRESS_ONLY_TYPE) {
+        alertEngine.ingest(location?.node.name ?? `Sensor ${sensor.id}`, sensor, takenAt);
+        timeSeries.append(sensor, takenAt);
+      }
+      // Only the newest points survive the chart window, so skip the rest of a large batch
+      if (items.length - i <= 100) comparisonPoints.push({ time: sensor.timestamp, stats: setupStats });
+    }
+
+    setLastSensor(items[items.length - 1].sensor);
+    setSessionTrace(prev => [...prev, ...items]);
+    setComparisonHistory(prev => [...prev, ...comparisonPoints].slice(-100));
+    setHighlightBlock(lastResult?.first.replacedId ?? null);
 
     setTimeout(() => setHighlightBlock(null), 800);
-  }, [cache, cacheSize, mappingType, replacementPolicy, accessHistory, generateSensorData]);
+  }, [simulator, comparison, coherence, alertEngine, network, timeSeries]);
+
+  const handleAccess = useCallback(() => {
+    const { sensor, kind } = workload.next();
+    runReadings([{ sensor: { ...sensor, timestamp: new Date().toLocaleTimeString() }, kind }]);
+  }, [runReadings, workload]);
+
+  const startReplay = (records: TraceRecord[], intervalMs: number | null) => {
+    setAutoSimulate(false);
+    if (intervalMs === null) {
+      // Spread over time like the demo warm-up, so rules that watch a window or a duration can still fire
+      const start = Date.now() - (records.length - 1) * SYNTHETIC_SPACING_MS;
+      runReadings(records.map((record, i) => record.time !== undefined ? record : { ...record, time: start + i * SYNTHETIC_SPACING_MS }));
+      return;
+    }
+    setReplay({ records, position: 0, intervalMs });
+  };
+
+  const connectFeed = (options: FeedOptions) => {
+    setAutoSimulate(false);
+    setReplay(null);
+    feed.connect(options);
+    setFeedStats(feed.getStats());
+  };
+
+  // Readings that already arrived still reach the cache
+  const disconnectFeed = () => {
+    feed.disconnect();
+    runReadings(feed.take(Infinity));
+    setFeedStats(feed.getStats());
+  };
+
+  const updateGateway = (next: CacheLevelConfig | null) => {
+    setGatewayLevel(next);
+    resetSimulation();
+  };
 
   const resetSimulation = () => {
-    setCache(CacheSimulationEngine.createEmptyCache(cacheSize));
-    setAccessHistory([]);
+    simulator.reset();
     setLastSensor(null);
+    setMetricsHistory([]);
+    setSessionTrace([]);
+    setReplay(null);
+    alertEngine.reset();
+    setAlerts({ active: [], history: [] });
+    timeSeries.clear();
+    updateComparison(comparisonSetups);
+    setCoherenceConfig({ ...coherenceConfig });
+  };
+
+  const persistSession = () => {
+    const ok = saveSession({
+      id: sessionId,
+      name: sessionName,
+      savedAt: Date.now(),
+      settings,
+      simulator: simulator.exportState(),
+      accessHistory,
+      metricsHistory,
+      sessionTrace,
+      lastSensor
+    });
+    setSaveFailed(!ok);
+    setSavedSessions(listSessions());
+  };
+
+  const applySession = (session: SavedSession) => {
+    const { cache, gateway, workload, comparison, alertRules, energyCosts, coherence, latency } = session.settings;
+    setCacheSize(cache.size);
+    setMappingType(cache.mapping);
+    setReplacementPolicy(cache.policy);
+    setBlockSize(cache.blockSize);
+    setWriteHitPolicy(cache.writeHitPolicy);
+    setWriteMissPolicy(cache.writeMissPolicy);
+    setPolicySeed(cache.seed);
+    setPrefetcher(cache.prefetcher ?? PrefetcherType.NONE);
+    setFreshness(cache.freshness ?? DEFAULT_FRESHNESS);
+    setGatewayLevel(gateway);
+    setWorkloadConfig(workload);
+    setComparisonSetups(comparison);
+    setComparisonHistory([]);
+    setAlertRules(alertRules);
+    setEnergyCosts(energyCosts);
+    setCoherenceConfig({ ...coherence });
+    setLatencyConfig(latency);
+    alertEngine.reset();
+    setAlerts({ active: [], history: [] });
+    timeSeries.clear();
+    setAutoSimulate(false);
+    setReplay(null);
+
+    slotAnalytics.clear();
+    simulator.load(buildHierarchyConfig(cache, gateway, latency), session.simulator);
+    setAccessHistory(session.accessHistory);
+    setMetricsHistory(session.metricsHistory);
+    setSessionTrace(session.sessionTrace);
+    setLastSensor(session.lastSensor);
+    setSessionId(session.id);
+    setSessionName(session.name);
+  };
+
+  const openSession = (id: string) => {
+    const session = loadSession(id);
+    if (!session) return;
+    persistSession();
+    applySession(withDefaults(session));
+  };
+
+  const startNewSession = () => {
+    persistSession();
+    applySession(blankSession(`Session ${savedSessions.length + 1}`, DEFAULT_SETTINGS));
+  };
+
+  const removeSession = (id: string) => {
+    deleteSession(id);
+    setSavedSessions(listSessions());
+  };
+
+  // A new setups array also rebuilds the comparison, so every setup restarts from empty
+  const updateComparison = (setups: CacheConfig[]) => {
+    setComparisonSetups([...setups]);
+    setComparisonHistory([]);
   };
 
   const renderTabContent = () => {
@@ -197,8 +575,8 @@ export default function App() {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <MetricStat label="Data Speed" value={`${hitRatio.toFixed(1)}%`} subValue="Reliability" icon={<TrendingUp size={20} />} color={COLORS.success} />
               <MetricStat label="System Delay" value={`${amat.toFixed(1)}ms`} subValue="Avg. Lag" icon={<Clock size={20} />} color={COLORS.primary} />
-              <MetricStat label="Power Saving" value="94.2%" subValue="Eco-Mode" icon={<Zap size={20} />} color={COLORS.warning} />
-              <MetricStat label="Field Nodes" value="48" subValue="Active" icon={<Network size={20} />} color={COLORS.primary} />
+              <MetricStat label="Power Saving" value={`${energy.savings.toFixed(1)}%`} subValue="vs No Shelf" icon={<Zap size={20} />} color={COLORS.warning} />
+              <MetricStat label="Field Nodes" value={network.nodes.length} subValue={`${network.sensors.length} Sensors`} icon={<Network size={20} />} color={COLORS.primary} />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -244,8 +622,8 @@ export default function App() {
                            <p className="text-sm font-bold">Auto-Irrigation</p>
                         </div>
                      </div>
-                     <span className={`px-3 py-1 rounded-full text-xs font-bold ${hitRatio > 50 ? 'bg-green-100 text-green-600' : 'bg-orange-100 text-orange-600'}`}>
-                        {hitRatio > 50 ? 'OPTIMIZED' : 'ADJUSTING'}
+                     <span className={`px-3 py-1 rounded-full text-xs font-bold ${wateringSeverity ? SEVERITY_STYLES[wateringSeverity] : 'bg-green-100 text-green-600'}`}>
+                        {wateringSeverity ? SUGGESTION_LABELS[wateringSeverity] : 'ON TRACK'}
                      </span>
                    </div>
                    
@@ -257,9 +635,18 @@ export default function App() {
                            <p className="text-sm font-bold">Plant Status</p>
                         </div>
                      </div>
-                     <span className="px-3 py-1 rounded-full bg-green-100 text-green-600 text-xs font-bold">STABLE</span>
+                     <span className={`px-3 py-1 rounded-full text-xs font-bold ${cropSeverity ? SEVERITY_STYLES[cropSeverity] : 'bg-green-100 text-green-600'}`}>
+                        {cropSeverity ? SUGGESTION_LABELS[cropSeverity] : 'STABLE'}
+                     </span>
                    </div>
 
+                   {alerts.active.length > 0 && (
+                     <button onClick={() => setActiveTab('readings')} className="w-full text-left p-3 rounded-xl bg-orange-50 text-orange-700 text-xs">
+                       <span className="font-bold">{alerts.active[0].name}</span> at {alerts.active[0].node}
+                       {alerts.active.length > 1 && <> and {alerts.active.length - 1} more</>} · see Readings
+                     </button>
+                   )}
+
                    <button 
                     onClick={() => setAutoSimulate(!autoSimulate)}
                     className={`w-full py-3 rounded-xl font-bold text-white transition-all shadow-lg active:scale-95 ${autoSimulate ? 'bg-red-500 shadow-red-200' : 'bg-blue-600 shadow-blue-200'}`}>
@@ -280,58 +667,107 @@ export default function App() {
             </header>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <Card className="md:col-span-1">
-                <h3 className="font-bold text-lg mb-4">Check Sensor</h3>
-                <div className="space-y-4">
-                  <div className="flex flex-col gap-1">
-                    <label className="text-xs font-bold text-gray-400 uppercase">Input Queue</label>
-                    <div className="h-24 bg-slate-50 rounded-xl border-dashed border-2 border-slate-200 flex items-center justify-center">
-                      <p className="text-sm text-gray-400 text-center px-4">New readings appear here</p>
+              <div className="md:col-span-1 space-y-6">
+                <Card>
+                  <h3 className="font-bold text-lg mb-4">Check Sensor</h3>
+                  <div className="space-y-4">
+                    <div className="flex flex-col gap-1">
+                      <label className="text-xs font-bold text-gray-400 uppercase">Input Queue</label>
+                      <div className="h-24 bg-slate-50 rounded-xl border-dashed border-2 border-slate-200 flex items-center justify-center">
+                        <p className="text-sm text-gray-400 text-center px-4">New readings appear here</p>
+                      </div>
+                    </div>
+                    <button onClick={handleAccess} className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-100 flex items-center justify-center gap-2">
+                      <Zap size={18} /> Manual Refresh
+                    </button>
+                    <div className="p-3 bg-green-50 rounded-xl flex items-center gap-2 text-green-700 text-sm">
+                      <Activity size={16} /> Data Cleaner: Active
                     </div>
                   </div>
-                  <button onClick={handleAccess} className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-100 flex items-center justify-center gap-2">
-                    <Zap size={18} /> Manual Refresh
-                  </button>
-                  <div className="p-3 bg-green-50 rounded-xl flex items-center gap-2 text-green-700 text-sm">
-                    <Activity size={16} /> Data Cleaner: Active
-                  </div>
-                </div>
-              </Card>
+                </Card>
+
+                <WorkloadCard config={workloadConfig} network={network} onChange={setWorkloadConfig} />
 
-              <Card className="md:col-span-2">
-                <h3 className="font-bold text-lg mb-4">Reading History</h3>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left">
-                    <thead>
-                      <tr className="border-b border-gray-100">
-                        <th className="py-3 text-xs font-bold text-gray-400 uppercase">Location ID</th>
-                        <th className="py-3 text-xs font-bold text-gray-400 uppercase">Sensor</th>
-                        <th className="py-3 text-xs font-bold text-gray-400 uppercase">Category</th>
-                        <th className="py-3 text-xs font-bold text-gray-400 uppercase">Speed</th>
-                        <th className="py-3 text-xs font-bold text-gray-400 uppercase">Time</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-gray-50">
-                      {accessHistory.map((h, i) => (
-                        <tr key={i} className="animate-in fade-in slide-in-from-top-1">
-                          <td className="py-3 font-mono text-xs text-blue-600">Loc-0x{h.address.toString(16).toUpperCase()}</td>
-                          <td className="py-3 text-sm font-medium">Node-{Math.floor(h.address / 4)}</td>
-                          <td className="py-3 text-sm text-gray-500">Field Data</td>
-                          <td className="py-3 text-sm">
-                            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${h.hit ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
-                              {h.hit ? 'INSTANT' : 'SLOW'}
-                            </span>
-                          </td>
-                          <td className="py-3 text-xs text-gray-400">{(new Date()).toLocaleTimeString()}</td>
+                <TraceReplayCard
+                  replay={replay && { position: replay.position, total: replay.records.length }}
+                  sessionTrace={sessionTrace}
+                  onReplay={startReplay}
+                  onStop={() => setReplay(null)}
+                />
+                <LiveFeedCard
+                  status={feedStatus.status}
+                  retryInMs={feedStatus.retryInMs}
+                  stats={feedStats}
+                  onConnect={connectFeed}
+                  onDisconnect={disconnectFeed}
+                />
+                <AlertsCard
+                  active={alerts.active}
+                  history={alerts.history}
+                  rules={alertRules}
+                  onAcknowledge={id => alertEngine.acknowledge(id)}
+                  onClear={id => alertEngine.clear(id)}
+                  onRulesChange={setAlertRules}
+                />
+              </div>
+
+              <div className="md:col-span-2 space-y-6">
+                <SensorHistoryCard store={timeSeries} revision={timeSeries.revision} network={network} />
+
+                <Card>
+                  <h3 className="font-bold text-lg mb-4">Reading History</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="border-b border-gray-100">
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Location ID</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Node</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Zone</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Action</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Tag · Set · Offset</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Speed</th>
+                          <th className="py-3 text-xs font-bold text-gray-400 uppercase">Time</th>
                         </tr>
-                      ))}
-                      {accessHistory.length === 0 && (
-                        <tr><td colSpan={5} className="py-10 text-center text-gray-400">No recent readings</td></tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
-              </Card>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50">
+                        {accessHistory.map((h, i) => {
+                          const location = network.locate(h.address);
+                          return (
+                            <tr key={i} className="animate-in fade-in slide-in-from-top-1">
+                              <td className="py-3 font-mono text-xs text-blue-600">Loc-0x{h.address.toString(16).toUpperCase()}</td>
+                              <td className="py-3 text-sm font-medium">
+                                {location ? (
+                                  <>{location.node.name} <span className="text-xs text-gray-400">· {location.sensor.type} slot {location.slot}</span></>
+                                ) : 'Unassigned'}
+                              </td>
+                              <td className="py-3 text-sm text-gray-500">{location ? `${location.zone.name} · ${location.field.name}` : '—'}</td>
+                              <td className="py-3 text-xs font-bold text-gray-500 uppercase">
+                                {h.kind === AccessKind.WRITE ? 'Save' : 'Lookup'}
+                                {h.writeBacks > 0 && <span className="ml-1 text-orange-500">+Flush</span>}
+                              </td>
+                              <td className="py-3 font-mono text-xs text-gray-500">{h.breakdown.tag} · {h.breakdown.index} · {h.breakdown.offset}</td>
+                              <td className="py-3 text-sm">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${h.hit ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+                                  {h.hit ? 'INSTANT' : 'SLOW'}
+                                </span>
+                                {h.missType && (
+                                  <span className="ml-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 text-[10px] font-bold uppercase">{h.missType}</span>
+                                )}
+                                {/* Readings saved before response times were sampled have none */}
+                                {h.latency !== undefined && <span className="ml-1 text-xs text-gray-400">{h.latency.toFixed(1)} ms</span>}
+                              </td>
+                              <td className="py-3 text-xs text-gray-400">{h.timestamp}</td>
+                            </tr>
+                          );
+                        })}
+                        {accessHistory.length === 0 && (
+                          <tr><td colSpan={7} className="py-10 text-center text-gray-400">No recent readings</td></tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+              </div>
             </div>
           </div>
         );
@@ -345,40 +781,161 @@ export default function App() {
                 <p className="text-gray-500">Managing how data is saved</p>
               </div>
               <button 
-                onClick={resetSimulation}
+                onClick={() => resetSimulation()}
                 className="px-4 py-2 bg-white rounded-full border border-gray-200 text-sm font-bold text-gray-600 shadow-sm">
                 Clear Memory
               </button>
             </header>
 
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-              <Card className="lg:col-span-1 h-fit">
-                <h3 className="font-bold text-lg mb-6">Storage Setup</h3>
-                <div className="space-y-6">
-                  <div>
-                    <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Memory Capacity</label>
-                    <div className="flex gap-2">
-                      {CACHE_SIZES.map(s => (
-                        <button key={s} onClick={() => { setCacheSize(s); resetSimulation(); }} className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-all ${cacheSize === s ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{s} slots</button>
-                      ))}
+              <div className="lg:col-span-1 space-y-6">
+                <Card>
+                  <h3 className="font-bold text-lg mb-6">Storage Setup</h3>
+                  <div className="space-y-6">
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Memory Capacity</label>
+                      <div className="flex gap-2">
+                        {CACHE_SIZES.map(s => (
+                          <button key={s} onClick={() => { setCacheSize(s); resetSimulation(); }} className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-all ${cacheSize === s ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{s} slots</button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                  <div>
-                    <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Sorting Style</label>
-                    <div className="flex flex-col gap-2">
-                      <button onClick={() => { setMappingType(MappingType.DIRECT); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${mappingType === MappingType.DIRECT ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Simple Sorting</button>
-                      <button onClick={() => { setMappingType(MappingType.TWO_WAY); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${mappingType === MappingType.TWO_WAY ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Smart Sorting</button>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Readings per Slot</label>
+                      <div className="flex gap-2">
+                        {BLOCK_SIZES.map(b => (
+                          <button key={b} onClick={() => { setBlockSize(b); resetSimulation(); }} className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-all ${blockSize === b ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{b}</button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                  <div>
-                    <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Memory Cleaner</label>
-                    <div className="flex flex-col gap-2">
-                      <button onClick={() => setReplacementPolicy(ReplacementPolicy.LRU)} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${replacementPolicy === ReplacementPolicy.LRU ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Remove Oldest Used</button>
-                      <button onClick={() => setReplacementPolicy(ReplacementPolicy.FIFO)} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${replacementPolicy === ReplacementPolicy.FIFO ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Remove First Entered</button>
+                    <NumberField
+                      label="Shelf answers in (ms)"
+                      value={latencyConfig.shelf.mean}
+                      min={0}
+                      max={60_000}
+                      step={0.1}
+                      onChange={mean => setLatencyConfig({ ...latencyConfig, shelf: { ...latencyConfig.shelf, mean } })}
+                    />
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Sorting Style</label>
+                      <div className="flex flex-col gap-2">
+                        {MAPPING_OPTIONS.map(opt => (
+                          <button key={opt.type} onClick={() => { setMappingType(opt.type); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all flex justify-between items-center ${mappingType === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>
+                            {opt.label}
+                            <span className="text-[10px] font-medium opacity-70">{CacheSimulationEngine.getWays(opt.type, cacheSize)}-way</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Saving New Readings</label>
+                      <div className="flex flex-col gap-2">
+                        <button onClick={() => { setWriteHitPolicy(WriteHitPolicy.WRITE_BACK); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${writeHitPolicy === WriteHitPolicy.WRITE_BACK ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Save Later (Write-back)</button>
+                        <button onClick={() => { setWriteHitPolicy(WriteHitPolicy.WRITE_THROUGH); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${writeHitPolicy === WriteHitPolicy.WRITE_THROUGH ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Save Now (Write-through)</button>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">New Reading Not on Shelf</label>
+                      <div className="flex flex-col gap-2">
+                        <button onClick={() => { setWriteMissPolicy(WriteMissPolicy.WRITE_ALLOCATE); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${writeMissPolicy === WriteMissPolicy.WRITE_ALLOCATE ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Put on Shelf (Allocate)</button>
+                        <button onClick={() => { setWriteMissPolicy(WriteMissPolicy.NO_WRITE_ALLOCATE); resetSimulation(); }} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${writeMissPolicy === WriteMissPolicy.NO_WRITE_ALLOCATE ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>Send to Warehouse (No Allocate)</button>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Memory Cleaner</label>
+                      <div className="flex flex-col gap-2">
+                        {POLICY_OPTIONS.map(opt => (
+                          <button key={opt.type} onClick={() => setReplacementPolicy(opt.type)} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${replacementPolicy === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                        ))}
+                        {replacementPolicy === ReplacementPolicy.RANDOM && (
+                          <NumberField label="Seed" value={policySeed} min={0} max={2 ** 32 - 1} onChange={setPolicySeed} />
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Fetching Ahead</label>
+                      <div className="flex flex-col gap-2">
+                        {PREFETCH_OPTIONS.map(opt => (
+                          <button key={opt.type} onClick={() => setPrefetcher(opt.type)} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${prefetcher === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-gray-400 uppercase block mb-2">Old Readings</label>
+                      <div className="flex flex-col gap-2">
+                        {FRESHNESS_OPTIONS.map(opt => (
+                          <button key={opt.type} onClick={() => setFreshness({ ...freshness, mode: opt.type })} className={`w-full py-2 px-3 text-left rounded-xl text-sm font-bold border transition-all ${freshness.mode === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                        ))}
+                        {freshness.mode !== FreshnessMode.OFF && Object.keys(SENSOR_UNITS).map(type => (
+                          <NumberField
+                            key={type}
+                            label={`${type} (min)`}
+                            value={Math.round((freshness.ttl[type] ?? 0) / 60)}
+                            min={0}
+                            max={24 * 60}
+                            onChange={minutes => setFreshness({ ...freshness, ttl: { ...freshness.ttl, [type]: minutes * 60 } })}
+                          />
+                        ))}
+                        {freshness.mode !== FreshnessMode.OFF && <p className="text-[10px] text-gray-400">0 keeps that type forever</p>}
+                      </div>
+                    </div>
+                    <div className="pt-6 border-t border-gray-100">
+                      <div className="flex justify-between items-center mb-2">
+                        <label className="text-xs font-bold text-gray-400 uppercase">Gateway Buffer</label>
+                        <button
+                          onClick={() => updateGateway(gatewayLevel ? null : DEFAULT_GATEWAY)}
+                          className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${gatewayLevel ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500'}`}>
+                          {gatewayLevel ? 'ON' : 'OFF'}
+                        </button>
+                      </div>
+                      {gatewayLevel && (
+                        <div className="space-y-4">
+                          <div className="flex gap-2">
+                            {GATEWAY_SIZES.map(s => (
+                              <button key={s} onClick={() => updateGateway({ ...gatewayLevel, size: s })} className={`flex-1 py-2 rounded-xl text-xs font-bold border transition-all ${gatewayLevel.size === s ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{s}</button>
+                            ))}
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            {MAPPING_OPTIONS.map(opt => (
+                              <button key={opt.type} onClick={() => updateGateway({ ...gatewayLevel, mapping: opt.type })} className={`py-2 px-2 rounded-xl text-[10px] font-bold border transition-all ${gatewayLevel.mapping === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                            ))}
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            {POLICY_OPTIONS.map(opt => (
+                              <button key={opt.type} onClick={() => updateGateway({ ...gatewayLevel, policy: opt.type })} className={`py-2 px-2 rounded-xl text-[10px] font-bold border transition-all ${gatewayLevel.policy === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                            ))}
+                          </div>
+                          <div className="flex flex-col gap-2">
+                            {INCLUSION_OPTIONS.map(opt => (
+                              <button key={opt.type} onClick={() => updateGateway({ ...gatewayLevel, inclusion: opt.type })} className={`w-full py-2 px-3 text-left rounded-xl text-xs font-bold border transition-all ${gatewayLevel.inclusion === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+                            ))}
+                          </div>
+                          <NumberField
+                            label="Answers in (ms)"
+                            value={latencyConfig.gateway.mean}
+                            min={0}
+                            max={60_000}
+                            step={0.1}
+                            onChange={mean => setLatencyConfig({ ...latencyConfig, gateway: { ...latencyConfig.gateway, mean } })}
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              </Card>
+                </Card>
+
+                <SessionsCard
+                  activeId={sessionId}
+                  name={sessionName}
+                  sessions={savedSessions}
+                  saveFailed={saveFailed}
+                  shareUrl={shareUrl}
+                  onRename={setSessionName}
+                  onOpen={openSession}
+                  onDelete={removeSession}
+                  onNew={startNewSession}
+                />
+              </div>
 
               <div className="lg:col-span-3 space-y-6">
                 <Card>
@@ -391,10 +948,26 @@ export default function App() {
                         </div>
                         <span className="text-xs font-bold mt-2 text-gray-400">Slower Access</span>
                      </div>
+                     {gatewayLevel && (
+                       <>
+                         <div className="flex-1 flex items-center gap-4">
+                            <div className="h-0.5 bg-gray-200 flex-1"></div>
+                         </div>
+                         <div className="flex flex-col items-center">
+                            <div className="w-20 h-28 bg-purple-50 border-2 border-purple-200 rounded-xl flex flex-col items-center justify-center font-bold text-purple-600 text-center px-2">
+                              <Network size={24} className="mb-2" />
+                              <span className="text-[10px]">{gatewayLevel.name}</span>
+                            </div>
+                            <span className="text-xs font-bold mt-2 text-gray-400">Found {levelHitRatio(1).toFixed(0)}%</span>
+                         </div>
+                       </>
+                     )}
                      <div className="flex-1 flex items-center gap-4 relative">
                         <div className="h-0.5 bg-gray-200 flex-1"></div>
                         <div className={`absolute left-1/2 -top-6 transform -translate-x-1/2 flex flex-col items-center gap-1 ${accessHistory[0]?.hit ? 'text-green-500' : accessHistory[0] ? 'text-red-500' : 'text-transparent'}`}>
-                           <span className="text-[10px] font-black uppercase">{accessHistory[0]?.hit ? 'Instant' : 'Delayed'}</span>
+                           <span className="text-[10px] font-black uppercase">
+                             {accessHistory[0]?.hit ? 'Instant' : accessHistory[0]?.servedBy === 1 && gatewayLevel ? 'Via Gateway' : 'Delayed'}
+                           </span>
                            {accessHistory[0]?.hit ? <Zap size={16} fill="currentColor" /> : <AlertCircle size={16} />}
                         </div>
                      </div>
@@ -403,7 +976,7 @@ export default function App() {
                           <Cpu size={24} className="mb-2" />
                           <span className="text-[10px]">Handy Shelf</span>
                         </div>
-                        <span className="text-xs font-bold mt-2 text-gray-400">Fast Access</span>
+                        <span className="text-xs font-bold mt-2 text-gray-400">Fast Access · Found {levelHitRatio(0).toFixed(0)}%</span>
                      </div>
                      <div className="flex-1 flex items-center gap-4">
                         <div className="h-0.5 bg-gray-200 flex-1"></div>
@@ -416,33 +989,148 @@ export default function App() {
                      </div>
                   </div>
 
-                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                    {cache.map((block, idx) => (
-                      <div 
-                        key={idx} 
-                        className={`p-4 rounded-2xl border-2 transition-all duration-300 flex flex-col items-center text-center ${
-                          highlightBlock === idx 
-                          ? 'border-yellow-400 bg-yellow-50 scale-105 shadow-xl' 
-                          : block.tag !== null 
-                            ? 'border-blue-100 bg-white' 
-                            : 'border-dashed border-gray-200 bg-gray-50'
-                        }`}>
-                        <span className="text-[10px] font-black text-gray-300 uppercase mb-1">Slot {idx}</span>
-                        {block.tag !== null ? (
-                          <>
-                            <p className="text-xs font-bold text-blue-600 uppercase">Code: {block.tag}</p>
-                            <p className="text-[10px] text-gray-400 mt-1 truncate w-full">{block.data?.type}</p>
-                            <div className="w-full h-1 bg-blue-100 rounded-full mt-2 overflow-hidden">
-                              <div className="h-full bg-blue-500" style={{ width: '100%' }}></div>
-                            </div>
-                          </>
-                        ) : (
-                          <span className="text-xs font-medium text-gray-300 py-4 italic">Available</span>
+                  {accessHistory[0] && (
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 p-4 bg-slate-50 rounded-2xl">
+                      <div>
+                        <p className="text-xs font-bold text-gray-400 uppercase">Last Location</p>
+                        <p className="font-mono text-sm font-bold text-gray-700">{formatAddress(accessHistory[0].address)}</p>
+                        {lastLocation && (
+                          <p className="text-xs text-gray-400">
+                            {lastLocation.sensor.type} on {lastLocation.node.name} · {lastLocation.zone.name}, {lastLocation.field.name}
+                          </p>
                         )}
                       </div>
-                    ))}
+                      <AddressSplit breakdown={accessHistory[0].breakdown} />
+                    </div>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
+                    <p className="text-xs font-bold text-gray-400 uppercase">
+                      {heatMetric === 'off' ? 'Shelf slots' : `Shelf slots · darker red = ${heatMetric === 'uses' ? 'used more' : 'pushed out more'}`}
+                    </p>
+                    <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+                      {HEAT_OPTIONS.map(opt => (
+                        <button
+                          key={opt.type}
+                          onClick={() => setHeatMetric(opt.type)}
+                          className={`px-3 py-1 text-[10px] font-bold rounded-lg transition-all ${heatMetric === opt.type ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    {cache.map((block, idx) => {
+                      const range = engine.getAddressRange(block);
+                      const nodes = range ? network.nodesIn(range.start, range.end) : [];
+                      const age = renderedAt - block.storedAt;
+                      const expired = engine.lifeUsed(block, renderedAt) >= 1;
+                      const activity = slotActivity[idx];
+                      const uses = activity.hits + activity.fills;
+                      return (
+                        <div 
+                          key={idx} 
+                          style={heatMetric !== 'off' && highlightBlock !== idx ? { backgroundColor: `rgba(239, 68, 68, ${(heatOf(idx) / maxHeat) * 0.35})` } : undefined}
+                          className={`p-4 rounded-2xl border-2 transition-all duration-300 flex flex-col items-center text-center ${
+                            highlightBlock === idx 
+                            ? 'border-yellow-400 bg-yellow-50 scale-105 shadow-xl' 
+                            : block.tag !== null 
+                              ? block.prefetched ? 'border-dashed border-purple-300 bg-purple-50' : block.isDirty ? 'border-orange-200 bg-white' : 'border-blue-100 bg-white'
+                              : 'border-dashed border-gray-200 bg-gray-50'
+                          }`}>
+                          <div className="flex items-center gap-1 mb-1">
+                            <span className="text-[10px] font-black text-gray-300 uppercase">Slot {idx}</span>
+                            {block.isDirty && (
+                              <span className="px-1.5 rounded-full bg-orange-100 text-orange-600 text-[9px] font-black uppercase">Unsaved</span>
+                            )}
+                            {block.prefetched && (
+                              <span className="px-1.5 rounded-full bg-purple-100 text-purple-600 text-[9px] font-black uppercase">Early</span>
+                            )}
+                            {block.tag !== null && expired && (
+                              <span className="px-1.5 rounded-full bg-red-100 text-red-600 text-[9px] font-black uppercase">Stale</span>
+                            )}
+                          </div>
+                          {block.tag !== null ? (
+                            <>
+                              <p className="text-xs font-bold text-blue-600 font-mono">
+                                {range && (range.start === range.end ? formatAddress(range.start) : `${formatAddress(range.start)}–${formatAddress(range.end)}`)}
+                              </p>
+                              <p className="text-[10px] font-bold text-gray-300 uppercase">Tag {block.tag}</p>
+                              <p className="text-[10px] text-gray-400">
+                                In #{block.insertedAt} · Used #{block.lastUsed} · {Number.isFinite(age) && block.storedAt > 0 ? `${formatAge(Math.max(age, 0))} old` : 'age unknown'}
+                              </p>
+                              <p className="text-[10px] text-gray-400 mt-1 truncate w-full">
+                                {nodes.length > 0
+                                  ? `${nodes[0].name}${nodes.length > 1 ? ` +${nodes.length - 1}` : ''} · ${network.zones[nodes[0].zoneId].name}`
+                                  : 'Unassigned'}
+                              </p>
+                            </>
+                          ) : (
+                            <span className="text-xs font-medium text-gray-300 py-4 italic">Available</span>
+                          )}
+                          {/* Share of this slot's uses that found the reading already there */}
+                          <div className={`w-full h-1 rounded-full mt-2 overflow-hidden ${block.prefetched ? 'bg-purple-100' : 'bg-blue-100'}`}>
+                            <div className={`h-full ${block.prefetched ? 'bg-purple-400' : 'bg-blue-500'}`} style={{ width: `${uses > 0 ? (activity.hits / uses) * 100 : 0}%` }}></div>
+                          </div>
+                          <p className="text-[10px] text-gray-400 mt-1">{uses} uses · {activity.hits} found · {activity.evictions} out</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {(freshness.mode !== FreshnessMode.OFF || freshnessStats.staleHitsAvoided + freshnessStats.refreshes > 0) && (
+                    <div className="mt-6 pt-6 border-t border-gray-100">
+                      <p className="text-xs font-bold text-gray-400 uppercase mb-3">Freshness · slots marked stale are past their time limit and will be fetched again</p>
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Stale Hits Avoided</p>
+                          <p className="font-bold text-red-500">{freshnessStats.staleHitsAvoided}</p>
+                          <p className="text-[10px] text-gray-400">old readings not served</p>
+                        </div>
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Refreshed Early</p>
+                          <p className="font-bold text-green-600">{freshnessStats.refreshes}</p>
+                          <p className="text-[10px] text-gray-400">fetched again before expiry</p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {(prefetcher !== PrefetcherType.NONE || prefetchStats.issued > 0) && (
+                    <div className="mt-6 pt-6 border-t border-gray-100">
+                      <p className="text-xs font-bold text-gray-400 uppercase mb-3">Fetched Early · dashed purple slots are still waiting for their first use</p>
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Fetched</p>
+                          <p className="font-bold text-gray-700">{prefetchStats.issued}</p>
+                        </div>
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Accuracy</p>
+                          <p className="font-bold text-purple-600">{prefetchAccuracy.toFixed(0)}%</p>
+                          <p className="text-[10px] text-gray-400">{prefetchStats.useful} used · {prefetchStats.unused} wasted</p>
+                        </div>
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Coverage</p>
+                          <p className="font-bold text-purple-600">{prefetchCoverage.toFixed(0)}%</p>
+                          <p className="text-[10px] text-gray-400">of misses avoided</p>
+                        </div>
+                        <div className="p-3 rounded-xl bg-slate-50">
+                          <p className="text-[10px] font-bold text-gray-400 uppercase">Pushed Out</p>
+                          <p className={`font-bold ${prefetchStats.pollution > 0 ? 'text-red-500' : 'text-gray-700'}`}>{prefetchStats.pollution}</p>
+                          <p className="text-[10px] text-gray-400">misses caused</p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </Card>
+
+                <SlotActivityCard analytics={slotAnalytics} />
+
+                <CoherenceCard system={coherence} config={coherenceConfig} network={network} onChange={setCoherenceConfig} />
+
+                <DebuggerCard config={hierarchyConfig} sessionTrace={sessionTrace} />
               </div>
             </div>
           </div>
@@ -468,43 +1156,91 @@ export default function App() {
                   <div className="space-y-3">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-500">Fast Shelf Search</span>
-                      <span className="font-bold">{HIT_TIME} ms</span>
+                      <span className="font-bold">{latencyConfig.shelf.mean} ms</span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-500">Search Success Rate</span>
                       <span className="font-bold text-green-500">{hitRatio.toFixed(1)} %</span>
                     </div>
+                    {gatewayLevel && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-500">Gateway Search ({levelHitRatio(1).toFixed(1)} % found)</span>
+                        <span className="font-bold">{latencyConfig.gateway.mean} ms</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-500">Warehouse Wait Time</span>
-                      <span className="font-bold">{MISS_PENALTY} ms</span>
+                      <span className="font-bold">{latencyConfig.warehouse.mean} ms</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-500">Unsaved Data Flushed</span>
+                      <span className="font-bold text-orange-500">{stats.memoryWriteBacks}</span>
                     </div>
                   </div>
                 </div>
               </Card>
 
               <Card>
-                <h3 className="font-bold text-lg mb-6">Storage Performance</h3>
-                <div className="h-64">
-                   <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={[
-                        { name: 'Basic', speed: 45 },
-                        { name: 'Smart', speed: hitRatio || 50 },
-                        { name: 'Average', speed: 62 }
-                      ]}>
-                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
-                        <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={12} />
-                        <YAxis hide />
-                        <Tooltip cursor={{fill: '#f8fafc'}} />
-                        <Bar dataKey="speed" fill={COLORS.primary} radius={[10, 10, 0, 0]} barSize={40} />
-                      </BarChart>
-                   </ResponsiveContainer>
+                <h3 className="font-bold text-lg mb-1">Distance from Ideal</h3>
+                <p className="text-xs text-gray-400 mb-6">The last {idealComparison.current.accesses} readings (at most {ACCESS_HISTORY_LIMIT}) replayed on the shelf alone against a cleaner that knows the future (OPT)</p>
+                <div className="space-y-4">
+                  {[
+                    { label: `Your Cleaner (${replacementPolicy})`, stats: idealComparison.current, color: 'bg-blue-500' },
+                    { label: 'Ideal Cleaner (OPT)', stats: idealComparison.ideal, color: 'bg-green-500' }
+                  ].map(row => (
+                    <div key={row.label}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-500">{row.label}</span>
+                        <span className="font-bold">{row.stats.hitRatio.toFixed(1)} %</span>
+                      </div>
+                      <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${row.color}`} style={{ width: `${row.stats.hitRatio}%` }}></div>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-sm pt-2 border-t border-gray-100">
+                    <span className="text-gray-500">Gap to Ideal</span>
+                    <span className="font-bold text-orange-500">
+                      {(idealComparison.ideal.hitRatio - idealComparison.current.hitRatio).toFixed(1)} pts
+                    </span>
+                  </div>
                 </div>
-                <div className="mt-4 flex justify-center gap-6">
-                   <div className="flex items-center gap-2 text-xs font-bold text-gray-500">
-                     <div className="w-3 h-3 rounded bg-blue-500"></div> System Speed Score
-                   </div>
+              </Card>
+
+              <Card>
+                <h3 className="font-bold text-lg mb-1">Why Readings Were Missing</h3>
+                <p className="text-xs text-gray-400 mb-6">Every slow reading this session, sorted by cause</p>
+                <div className="space-y-4">
+                  {MISS_CAUSES.map(cause => {
+                    const count = missTotals[cause.type];
+                    const share = totalMisses > 0 ? (count / totalMisses) * 100 : 0;
+                    return (
+                      <div key={cause.type}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="text-gray-500">{cause.label} <span className="text-[10px] uppercase text-gray-300">{cause.type}</span></span>
+                          <span className="font-bold">{count}</span>
+                        </div>
+                        <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div className={`h-full ${cause.color}`} style={{ width: `${share}%` }}></div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-gray-500 pt-2 border-t border-gray-100">
+                    {missAdvice}
+                  </p>
                 </div>
               </Card>
+
+              <ReuseDistanceCard profile={reuseProfile} currentSize={cacheSize} blockSize={blockSize} />
+
+              <EnergyCard report={energy} costs={energyCosts} onChange={setEnergyCosts} />
+
+              <LatencyCard stats={stats.latency} config={latencyConfig} hasGateway={gatewayLevel !== null} onChange={setLatencyConfig} />
+
+              <ComparisonCard setups={comparisonSetups} history={comparisonHistory} onChange={updateComparison} />
+
+              <SeasonReplayCard config={hierarchyConfig} workload={workloadConfig} />
             </div>
           </div>
         );
@@ -522,6 +1258,83 @@ export default function App() {
     return () => clearInterval(interval);
   }, [autoSimulate, handleAccess]);
 
+  useEffect(() => simulator.subscribe(event => {
+    if (event.type === 'access') {
+      const { hitRatio, amat } = simulator.getStats();
+      setAccessHistory(prev => [event.record, ...prev].slice(0, ACCESS_HISTORY_LIMIT));
+      setMetricsHistory(prev => [...prev, {
+        time: event.record.timestamp,
+        hitRatio: Number(hitRatio.toFixed(1)),
+        amat: Number(amat.toFixed(1))
+      }].slice(-100));
+    } else if (event.type === 'reconfigure' && event.cleared) {
+      setAccessHistory([]);
+    }
+  }), [simulator]);
+
+  useEffect(() => simulator.subscribe(event => slotAnalytics.record(event)), [simulator, slotAnalytics]);
+
+  useEffect(() => slotAnalytics.setNetwork(network), [slotAnalytics, network]);
+
+  useEffect(() => simulator.reconfigure(hierarchyConfig), [simulator, hierarchyConfig]);
+
+  useEffect(() => alertEngine.subscribe(() => {
+    setAlerts({ active: alertEngine.getActive(), history: alertEngine.getHistory() });
+  }), [alertEngine]);
+
+  useEffect(() => alertEngine.setRules(alertRules), [alertEngine, alertRules]);
+
+  useEffect(() => {
+    const unsubscribe = feed.subscribe(({ status, retryInMs }) => setFeedStatus({ status, retryInMs }));
+    return () => {
+      unsubscribe();
+      feed.disconnect();
+    };
+  }, [feed]);
+
+  useEffect(() => feed.setNetwork(network), [feed, network]);
+
+  useEffect(() => comparison.setTiming(timing), [comparison, timing]);
+
+  // Drain the feed in batches so a burst of readings costs one render, not hundreds
+  useEffect(() => {
+    if (feedStatus.status === 'idle') return;
+    const timer = setInterval(() => {
+      runReadings(feed.take(FEED_BATCH));
+      setFeedStats(feed.getStats());
+    }, FEED_DRAIN_MS);
+    return () => clearInterval(timer);
+  }, [feed, feedStatus.status, runReadings]);
+
+  // Warm up a fresh session with demo traffic once; StrictMode re-running this effect finds the clock already moving
+  useEffect(() => {
+    if (startup.session.simulator || simulator.time > 0) return;
+    initialDemoData.forEach(({ sensor, kind }, i) => {
+      simulator.access(sensor.address, sensor, kind, demoTime(i));
+      timeSeries.append(sensor, demoTime(i));
+    });
+  }, [simulator, timeSeries]);
+
+  // The link has been turned into a session; a reload should reopen that session, not the link
+  useEffect(() => {
+    if (startup.fromLink) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [startup]);
+
+  useEffect(() => {
+    const timer = setTimeout(persistSession, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, sessionName, settings, accessHistory, metricsHistory, sessionTrace, lastSensor]);
+
+  useEffect(() => {
+    if (!replay) return;
+    const timer = setTimeout(() => {
+      runReadings([replay.records[replay.position]]);
+      const position = replay.position + 1;
+      setReplay(position < replay.records.length ? { ...replay, position } : null);
+    }, replay.intervalMs);
+    return () => clearTimeout(timer);
+  }, [replay, runReadings]);
+
   return (
     <div className="min-h-screen bg-[#F2F2F7] selection:bg-blue-100 flex flex-col items-center">
       <main className="w-full max-w-5xl px-4 py-8 md:px-6 md:py-12">
@@ -0,0 +1,293 @@
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { AccessKind, TraceRecord } from '../types';
+import { parseTrace } from '../services/traceParser';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import { MqttPacket, decodeMqtt, encodeMqtt } from '../services/mqttPackets';
+
+const USAGE = `Usage: npm run broker -- [options]
+
+Publishes sensor readings to the dashboard's Live Feed, as plain WebSocket
+JSON messages or on an MQTT topic over WebSocket (subprotocol "mqtt").
+
+Input (one of):
+  --trace <file>         CSV or Dinero .din trace to replay
+                         (default: endless readings from the default workload)
+
+Options:
+  --port 8080            port to listen on
+  --rate 5               readings per second, per connected client
+  --topic agricache/readings
+                         MQTT topic readings are published on; clients may
+                         pause and resume it by publishing to <topic>/control
+  --once                 stop each client after one pass through the trace
+`;
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const TICK_MS = 100;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const fail = (message: string): never => {
+  process.stderr.write(`broker: ${message}\n`);
+  process.exit(1);
+};
+
+const { values } = parseArgs({
+  options: {
+    trace: { type: 'string' },
+    port: { type: 'string', default: '8080' },
+    rate: { type: 'string', default: '5' },
+    topic: { type: 'string', default: 'agricache/readings' },
+    once: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false }
+  }
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const port = Number(values.port);
+const rate = Number(values.rate);
+if (!Number.isInteger(port) || port < 1 || port > 65535) fail(`invalid --port "${values.port}"`);
+if (!Number.isFinite(rate) || rate <= 0) fail(`--rate must be a positive number, got "${values.rate}"`);
+const topic = values.topic;
+
+const readInput = (path: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (err) {
+    return fail(`cannot read ${path}: ${(err as Error).message}`);
+  }
+};
+
+let trace: TraceRecord[] | null = null;
+if (values.trace) {
+  const parsed = parseTrace(values.trace, readInput(values.trace));
+  if (parsed.errors.length > 0) {
+    parsed.errors.forEach(err => process.stderr.write(`${values.trace}:${err.line}: ${err.message}\n`));
+    fail(`${parsed.errors.length} invalid line(s) in trace`);
+  }
+  if (parsed.records.length === 0) fail('trace has no readings');
+  trace = parsed.records;
+}
+
+/** Each client replays the source from its start, at its own pace. */
+const readingSource = (): (() => TraceRecord | null) => {
+  if (!trace) {
+    const workload = new WorkloadGenerator(DEFAULT_WORKLOAD);
+    return () => workload.next();
+  }
+  const records = trace;
+  let position = 0;
+  return () => {
+    if (position === records.length) {
+      if (values.once) return null;
+      position = 0;
+    }
+    return records[position++];
+  };
+};
+
+// Readings go out stamped with the time they are sent, as a device would
+const toMessage = ({ sensor, kind }: TraceRecord) => ({
+  ...sensor,
+  timestamp: Date.now(),
+  kind: kind === AccessKind.WRITE ? 'write' : 'read'
+});
+
+const sendFrame = (socket: Duplex, opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+  socket.write(Buffer.concat([header, payload]));
+};
+
+/** Splits client frames (always masked) off the front of `buffer`; returns what is left over. */
+const readFrames = (buffer: Buffer, onFrame: (opcode: number, payload: Buffer) => void): Buffer => {
+  let at = 0;
+  while (buffer.length - at >= 2) {
+    const opcode = buffer[at] & 0x0f;
+    let length = buffer[at + 1] & 0x7f;
+    let cursor = at + 2;
+    if (length === 126) {
+      if (buffer.length - cursor < 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length - cursor < 4 + length) break;
+
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload);
+    at = cursor + 4 + length;
+  }
+  return buffer.subarray(at);
+};
+
+let clientCount = 0;
+
+const serveClient = (socket: Duplex, mqtt: boolean) => {
+  const name = `client ${++clientCount}`;
+  const next = readingSource();
+  const perTick = rate * (TICK_MS / 1000);
+  let owed = 0;
+  let streaming = !mqtt; // MQTT clients get readings once they subscribe
+  let paused = false;
+  let sent = 0;
+  let pending = Buffer.alloc(0);
+  let mqttRest = new Uint8Array(0);
+
+  const log = (message: string) => process.stdout.write(`${name}: ${message}\n`);
+  const sendMqtt = (packet: MqttPacket) => sendFrame(socket, OPCODE_BINARY, Buffer.from(encodeMqtt(packet)));
+
+  const setPaused = (value: boolean) => {
+    if (paused === value) return;
+    paused = value;
+    log(value ? `paused by client after ${sent} readings` : 'resumed');
+  };
+
+  const sendBatch = (batch: ReturnType<typeof toMessage>[]) => {
+    if (batch.length === 0) return;
+    sent += batch.length;
+    const body = JSON.stringify(batch.length === 1 ? batch[0] : batch);
+    if (mqtt) sendMqtt({ type: 'publish', topic, payload: new TextEncoder().encode(body) });
+    else sendFrame(socket, OPCODE_TEXT, Buffer.from(body));
+  };
+
+  const timer = setInterval(() => {
+    if (!streaming || paused) return;
+    owed += perTick;
+    const batch: ReturnType<typeof toMessage>[] = [];
+    for (; owed >= 1; owed--) {
+      const record = next();
+      if (!record) {
+        // The readings taken before the trace ran out still go out
+        sendBatch(batch);
+        log(`trace finished after ${sent} readings`);
+        sendFrame(socket, OPCODE_CLOSE, Buffer.alloc(0));
+        socket.end();
+        return;
+      }
+      batch.push(toMessage(record));
+    }
+    sendBatch(batch);
+  }, TICK_MS);
+
+  const handleMqtt = (packet: MqttPacket) => {
+    switch (packet.type) {
+      case 'connect':
+        sendMqtt({ type: 'connack', returnCode: 0 });
+        return;
+      case 'subscribe':
+        sendMqtt({ type: 'suback', packetId: packet.packetId });
+        if (packet.topics.includes(topic)) {
+          streaming = true;
+          log(`subscribed to ${topic}`);
+        }
+        return;
+      case 'publish':
+        if (packet.topic === `${topic}/control`) setPaused(new TextDecoder().decode(packet.payload).trim() === 'pause');
+        return;
+      case 'pingreq':
+        sendMqtt({ type: 'pingresp' });
+        return;
+      case 'disconnect':
+        socket.end();
+        return;
+      default:
+        return;
+    }
+  };
+
+  const handleFrame = (opcode: number, payload: Buffer) => {
+    if (opcode === OPCODE_CLOSE) {
+      sendFrame(socket, OPCODE_CLOSE, Buffer.alloc(0));
+      socket.end();
+    } else if (opcode === OPCODE_PING) {
+      sendFrame(socket, OPCODE_PONG, payload);
+    } else if (mqtt && opcode === OPCODE_BINARY) {
+      const joined = new Uint8Array(mqttRest.length + payload.length);
+      joined.set(mqttRest);
+      joined.set(payload, mqttRest.length);
+      const decoded = decodeMqtt(joined);
+      mqttRest = decoded.rest;
+      decoded.packets.forEach(handleMqtt);
+    } else if (!mqtt && opcode === OPCODE_TEXT) {
+      try {
+        const { control } = JSON.parse(payload.toString('utf8'));
+        if (control === 'pause' || control === 'resume') setPaused(control === 'pause');
+      } catch {
+        // Anything other than flow control is ignored
+      }
+    }
+  };
+
+  log(`connected (${mqtt ? `MQTT, topic ${topic}` : 'WebSocket JSON'})`);
+  socket.on('data', (chunk: Buffer) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), handleFrame);
+    } catch (err) {
+      log(`protocol error: ${(err as Error).message}`);
+      socket.destroy();
+    }
+  });
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => {
+    clearInterval(timer);
+    log(`disconnected after ${sent} readings`);
+  });
+};
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('AgriCache mock broker: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket: Duplex) => {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const protocols = String(req.headers['sec-websocket-protocol'] ?? '').split(',').map(p => p.trim());
+  const mqtt = protocols.includes('mqtt');
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    ...(mqtt ? ['Sec-WebSocket-Protocol: mqtt'] : []),
+    '',
+    ''
+  ].join('\r\n'));
+  serveClient(socket, mqtt);
+});
+
+server.listen(port, () => {
+  const source = values.trace ? `${trace!.length} readings from ${values.trace}` : 'the default workload';
+  process.stdout.write(`broker: replaying ${source} at ${rate}/s on ws://localhost:${port} (MQTT topic ${topic})\n`);
+});
@@ -0,0 +1,199 @@
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AddressLayout, MappingType, ReplacementPolicy, TraceRecord, WorkloadModel, WriteHitPolicy, WriteMissPolicy } from '../types';
+import { ADDRESS_SPACE, CACHE_SIZES, DEFAULT_SEED } from '../constants';
+import { parseTrace } from '../services/traceParser';
+import { formatSweepCsv, runSweep } from '../services/batchSimulator';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import { DEFAULT_LATENCY } from '../services/latencyModel';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Input (one of):
+  --trace <file>         CSV (timestamp,sensorId,type,value,address,op) or Dinero .din trace
+  --workload <file>      JSON workload spec, every key optional:
+                           { "count": 1000, "model": "zipf", "seed": 42, "sensorCount": 48,
+                             "layout": "ring", "writeRatio": 0.7, "skew": 1.2, "stride": 1,
+                             "burstChance": 0.05, "burstLength": 12 }
+                         model: round-robin | zipf | sweep | irrigation
+                         layout: ring (per-sensor ring buffers) | type (per-type arrays)
+                         (default: 1000 readings from the values above)
+
+Grid (comma-separated lists):
+  --sizes 4,8,16         cache sizes in slots
+  --mappings direct,2,4  direct | 2 | 4 | 8 | full
+  --policies lru,fifo    lru | fifo | lfu | random | plru | opt
+  --block-sizes 1        addresses per line
+
+Options:
+  --write-hit back       back | through
+  --write-miss allocate  allocate | no-allocate
+  --seed 42              seed for the Random policy
+  --hit-time ${String(DEFAULT_LATENCY.shelf.mean).padEnd(11)} ms per cache lookup, for AMAT
+  --memory-latency ${String(DEFAULT_LATENCY.warehouse.mean).padEnd(5)} ms per main memory access, for AMAT
+  --format json          json | csv
+  --out <file>           write the report to a file instead of stdout
+`;
+
+const MAPPINGS: Record<string, MappingType> = {
+  direct: MappingType.DIRECT,
+  '1': MappingType.DIRECT,
+  '2': MappingType.TWO_WAY,
+  '4': MappingType.FOUR_WAY,
+  '8': MappingType.EIGHT_WAY,
+  full: MappingType.FULLY_ASSOCIATIVE
+};
+
+const POLICIES: Record<string, ReplacementPolicy> = {
+  lru: ReplacementPolicy.LRU,
+  fifo: ReplacementPolicy.FIFO,
+  lfu: ReplacementPolicy.LFU,
+  random: ReplacementPolicy.RANDOM,
+  plru: ReplacementPolicy.PLRU,
+  opt: ReplacementPolicy.OPT
+};
+
+const WRITE_HIT_POLICIES: Record<string, WriteHitPolicy> = {
+  back: WriteHitPolicy.WRITE_BACK,
+  through: WriteHitPolicy.WRITE_THROUGH
+};
+
+const WRITE_MISS_POLICIES: Record<string, WriteMissPolicy> = {
+  allocate: WriteMissPolicy.WRITE_ALLOCATE,
+  'no-allocate': WriteMissPolicy.NO_WRITE_ALLOCATE
+};
+
+const MODELS: Record<string, WorkloadModel> = {
+  'round-robin': WorkloadModel.ROUND_ROBIN,
+  zipf: WorkloadModel.ZIPF,
+  sweep: WorkloadModel.SWEEP,
+  irrigation: WorkloadModel.IRRIGATION
+};
+
+const LAYOUTS: Record<string, AddressLayout> = {
+  ring: AddressLayout.RING_BUFFER,
+  type: AddressLayout.TYPE_ARRAYS
+};
+
+const fail = (message: string): never => {
+  process.stderr.write(`simulate: ${message}\n`);
+  process.exit(1);
+};
+
+const lookup = <T>(table: Record<string, T>, name: string, option: string): T =>
+  table[name.toLowerCase()] ?? fail(`unknown ${option} "${name}" (expected ${Object.keys(table).join(', ')})`);
+
+const readInput = (path: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (err) {
+    return fail(`cannot read ${path}: ${(err as Error).message}`);
+  }
+};
+
+const list = (value: string): string[] => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const numbers = (value: string, option: string): number[] =>
+  list(value).map(v => {
+    const n = Number(v);
+    return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0 ? n : fail(`${option} must be powers of two, got "${v}"`);
+  });
+
+const { values } = parseArgs({
+  options: {
+    trace: { type: 'string' },
+    workload: { type: 'string' },
+    sizes: { type: 'string', default: CACHE_SIZES.join(',') },
+    mappings: { type: 'string', default: 'direct,2' },
+    policies: { type: 'string', default: 'lru,fifo' },
+    'block-sizes': { type: 'string', default: '1' },
+    'write-hit': { type: 'string', default: 'back' },
+    'write-miss': { type: 'string', default: 'allocate' },
+    seed: { type: 'string', default: String(DEFAULT_SEED) },
+    'hit-time': { type: 'string', default: String(DEFAULT_LATENCY.shelf.mean) },
+    'memory-latency': { type: 'string', default: String(DEFAULT_LATENCY.warehouse.mean) },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+    help: { type: 'boolean', default: false }
+  }
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+if (values.trace && values.workload) fail('use either --trace or --workload, not both');
+if (values.format !== 'json' && values.format !== 'csv') fail(`unknown --format "${values.format}"`);
+const seed = Number(values.seed);
+if (!Number.isInteger(seed) || seed < 0) fail(`--seed must be a non-negative integer, got "${values.seed}"`);
+const milliseconds = (value: string, option: string): number => {
+  const n = Number(value);
+  return value.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : fail(`${option} must be a non-negative number of ms, got "${value}"`);
+};
+const timing = {
+  hitTime: milliseconds(values['hit-time'], '--hit-time'),
+  memoryLatency: milliseconds(values['memory-latency'], '--memory-latency')
+};
+const writeHitPolicy = lookup(WRITE_HIT_POLICIES, values['write-hit'], '--write-hit');
+const writeMissPolicy = lookup(WRITE_MISS_POLICIES, values['write-miss'], '--write-miss');
+
+let records: TraceRecord[];
+let source: string;
+
+if (values.trace) {
+  const parsed = parseTrace(values.trace, readInput(values.trace));
+  if (parsed.errors.length > 0) {
+    parsed.errors.forEach(err => process.stderr.write(`${values.trace}:${err.line}: ${err.message}\n`));
+    fail(`${parsed.errors.length} invalid line(s) in trace`);
+  }
+  if (parsed.folded > 0) {
+    process.stderr.write(`${values.trace}: ${parsed.folded} address(es) folded into the ${ADDRESS_SPACE}-location memory\n`);
+  }
+  records = parsed.records;
+  source = basename(values.trace);
+} else {
+  let spec: Record<string, unknown> = {};
+  if (values.workload) {
+    try {
+      spec = JSON.parse(readInput(values.workload));
+    } catch (err) {
+      fail(`invalid workload JSON in ${values.workload}: ${(err as Error).message}`);
+    }
+    if (spec === null || typeof spec !== 'object' || Array.isArray(spec)) fail('workload spec must be a JSON object');
+  }
+  const { count = 1000, model, layout, ...params } = spec;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) fail('workload count must be a positive integer');
+  try {
+    records = new WorkloadGenerator({
+      ...DEFAULT_WORKLOAD,
+      ...params,
+      model: model === undefined ? DEFAULT_WORKLOAD.model : lookup(MODELS, String(model), 'workload model'),
+      layout: layout === undefined ? DEFAULT_WORKLOAD.layout : lookup(LAYOUTS, String(layout), 'address layout')
+    }).take(count as number);
+  } catch (err) {
+    fail(`invalid workload: ${(err as Error).message}`);
+  }
+  source = values.workload ? basename(values.workload) : 'default workload';
+}
+
+if (records.length === 0) fail('trace has no readings');
+
+const results = runSweep({
+  sizes: numbers(values.sizes, '--sizes'),
+  mappings: list(values.mappings).map(m => lookup(MAPPINGS, m, 'mapping')),
+  policies: list(values.policies).map(p => lookup(POLICIES, p, 'policy')),
+  blockSizes: numbers(values['block-sizes'], '--block-sizes'),
+  writeHitPolicy,
+  writeMissPolicy,
+  seed,
+  timing
+}, records.map(r => ({ address: r.sensor.address, kind: r.kind })));
+
+const report = values.format === 'csv'
+  ? formatSweepCsv(results)
+  : JSON.stringify({ source, accesses: records.length, results }, null, 2) + '\n';
+
+if (values.out) writeFileSync(values.out, report);
+else process.stdout.write(report);
@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { AddressBreakdown } from '../types';
+import { ADDRESS_BITS } from '../constants';
+
+export const formatAddress = (address: number) => `0x${address.toString(16).toUpperCase().padStart(2, '0')}`;
+
+export const AddressSplit: React.FC<{ breakdown: AddressBreakdown }> = ({ breakdown }) => {
+  const bits = breakdown.address.toString(2).padStart(ADDRESS_BITS, '0');
+  const fields = [
+    { label: 'Tag', bits: bits.slice(0, breakdown.tagBits), value: breakdown.tag, className: 'bg-blue-50 text-blue-600' },
+    { label: 'Set', bits: bits.slice(breakdown.tagBits, breakdown.tagBits + breakdown.indexBits), value: breakdown.index, className: 'bg-orange-50 text-orange-600' },
+    { label: 'Offset', bits: bits.slice(breakdown.tagBits + breakdown.indexBits), value: breakdown.offset, className: 'bg-green-50 text-green-600' }
+  ];
+
+  return (
+    <div className="flex gap-1">
+      {fields.filter(f => f.bits.length > 0).map(f => (
+        <div key={f.label} className={`px-3 py-2 rounded-xl flex flex-col items-center ${f.className}`}>
+          <span className="font-mono text-sm font-bold tracking-widest">{f.bits}</span>
+          <span className="text-[10px] font-bold uppercase">{f.label} {f.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
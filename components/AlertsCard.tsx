@@ -0,0 +1,128 @@
+
+import React, { useState } from 'react';
+import { Check, X, AlertCircle, Pencil } from 'lucide-react';
+import { Alert, AlertRule, AlertSeverity } from '../types';
+import { parseAlertRules } from '../services/alertRules';
+import { Card } from './Card';
+
+const MAX_LISTED_HISTORY = 10;
+
+export const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-blue-100 text-blue-600',
+  warning: 'bg-orange-100 text-orange-600',
+  critical: 'bg-red-100 text-red-600'
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+interface AlertsCardProps {
+  active: Alert[];
+  history: Alert[];
+  rules: AlertRule[];
+  onAcknowledge: (id: number) => void;
+  onClear: (id: number) => void;
+  onRulesChange: (rules: AlertRule[]) => void;
+}
+
+export const AlertsCard: React.FC<AlertsCardProps> = ({ active, history, rules, onAcknowledge, onClear, onRulesChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const applyDraft = () => {
+    if (draft === null) return;
+    const parsed = parseAlertRules(draft);
+    setErrors(parsed.errors);
+    if (parsed.errors.length > 0) return;
+    onRulesChange(parsed.rules);
+    setDraft(null);
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="font-bold text-lg">Field Alerts</h3>
+          <p className="text-xs text-gray-400">{rules.length} rules watching every node</p>
+        </div>
+        <button
+          onClick={() => { setDraft(draft === null ? JSON.stringify(rules, null, 2) : null); setErrors([]); }}
+          className="px-3 py-1 rounded-full text-xs font-bold bg-gray-100 text-gray-500 flex items-center gap-1"
+        >
+          <Pencil size={12} /> {draft === null ? 'Edit Rules' : 'Cancel'}
+        </button>
+      </div>
+
+      {draft !== null ? (
+        <div className="space-y-3">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-64 p-3 rounded-xl border border-gray-200 font-mono text-[11px] text-gray-700"
+          />
+          {errors.length > 0 && (
+            <ul className="p-3 bg-red-50 rounded-xl text-red-600 text-xs space-y-1 max-h-32 overflow-y-auto">
+              {errors.map((message, i) => (
+                <li key={i} className="flex gap-2">
+                  <AlertCircle size={12} className="mt-0.5 shrink-0" /> {message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <button onClick={applyDraft} className="w-full py-2 rounded-xl text-xs font-bold bg-blue-600 text-white">Apply Rules</button>
+          <p className="text-[10px] text-gray-400">
+            Each condition names a sensor type and any of above, below, risesBy or fallsBy (within withinSeconds), optionally held for forSeconds.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {active.length === 0 ? (
+            <p className="p-3 bg-green-50 rounded-xl text-green-700 text-sm">All readings within limits</p>
+          ) : (
+            <ul className="space-y-2">
+              {active.map(alert => (
+                <li key={alert.id} className="flex items-center justify-between gap-2 p-3 rounded-xl bg-slate-50">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-700 flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${SEVERITY_STYLES[alert.severity]}`}>{alert.severity}</span>
+                      <span className="truncate">{alert.name}</span>
+                    </p>
+                    <p className="text-xs text-gray-400">{alert.node} · {alert.detail} · since {formatTime(alert.raisedAt)}</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {alert.acknowledgedAt === null ? (
+                      <button onClick={() => onAcknowledge(alert.id)} className="px-2 py-1 rounded-lg text-xs font-bold text-blue-600 flex items-center gap-1">
+                        <Check size={12} /> Ack
+                      </button>
+                    ) : (
+                      <span className="px-2 py-1 text-xs text-gray-400">Seen</span>
+                    )}
+                    <button onClick={() => onClear(alert.id)} className="text-gray-300 hover:text-gray-500">
+                      <X size={14} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <label className="text-xs font-bold text-gray-400 uppercase">Earlier</label>
+              <ul className="mt-2 space-y-1 text-xs text-gray-500">
+                {history.slice(0, MAX_LISTED_HISTORY).map(alert => (
+                  <li key={alert.id} className="flex justify-between gap-2">
+                    <span className="truncate"><span className="font-bold">{alert.name}</span> · {alert.node}</span>
+                    <span className="text-gray-400 shrink-0">
+                      {formatTime(alert.raisedAt)}–{alert.clearedAt !== null && formatTime(alert.clearedAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
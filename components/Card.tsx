@@ -0,0 +1,8 @@
+
+import React from 'react';
+
+export const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = "" }) => (
+  <div className={`bg-white rounded-[20px] shadow-sm p-5 border border-gray-100 ${className}`}>
+    {children}
+  </div>
+);
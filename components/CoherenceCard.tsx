@@ -0,0 +1,173 @@
+
+import React, { useState } from 'react';
+import { CoherenceConfig, CoherenceProtocol, CoherenceState, CoherenceTransition } from '../types';
+import { GATEWAY_COUNTS } from '../constants';
+import { CoherentGateways } from '../services/coherentGateways';
+import { SensorNetwork } from '../services/sensorNetwork';
+import { formatAddress } from './AddressSplit';
+import { Card } from './Card';
+
+const MAX_LISTED_TRANSITIONS = 12;
+
+const STATE_STYLES: Record<CoherenceState, { label: string; className: string }> = {
+  [CoherenceState.MODIFIED]: { label: 'Changed here only', className: 'bg-orange-100 text-orange-600' },
+  [CoherenceState.EXCLUSIVE]: { label: 'Only copy, unchanged', className: 'bg-green-100 text-green-700' },
+  [CoherenceState.SHARED]: { label: 'Shared copy', className: 'bg-blue-100 text-blue-600' },
+  [CoherenceState.INVALID]: { label: 'Not held', className: 'bg-gray-100 text-gray-400' }
+};
+
+const CAUSE_LABELS: Record<CoherenceTransition['cause'], string> = {
+  read: 'read here',
+  write: 'written here',
+  snoop: 'another gateway asked',
+  evict: 'made room'
+};
+
+interface CoherenceCardProps {
+  system: CoherentGateways;
+  config: CoherenceConfig;
+  network: SensorNetwork;
+  onChange: (config: CoherenceConfig) => void;
+}
+
+export const CoherenceCard: React.FC<CoherenceCardProps> = ({ system, config, network, onChange }) => {
+  const [selected, setSelected] = useState<number | null>(null); // first address of the line being followed
+
+  const caches = system.getCaches();
+  const states = system.getStates();
+  const stats = system.getStats();
+  const protocols = Object.values(CoherenceProtocol);
+  const legend = config.protocol === CoherenceProtocol.MESI
+    ? Object.values(CoherenceState)
+    : Object.values(CoherenceState).filter(state => state !== CoherenceState.EXCLUSIVE);
+
+  const transitions = system.getTransitions()
+    .filter(t => selected === null || t.address === selected)
+    .slice(-MAX_LISTED_TRANSITIONS)
+    .reverse();
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-800">Shared Gateways</h3>
+          <p className="text-xs text-gray-400">Each zone reports through its own gateway; the screen asks them in turn, and a shared bus keeps their copies in agreement</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+            {GATEWAY_COUNTS.map(n => (
+              <button
+                key={n}
+                onClick={() => onChange({ ...config, gateways: n })}
+                className={`px-3 py-1 text-[10px] font-bold rounded-lg transition-all ${config.gateways === n ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {n} gateways
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+            {protocols.map(protocol => (
+              <button
+                key={protocol}
+                onClick={() => onChange({ ...config, protocol })}
+                className={`px-3 py-1 text-[10px] font-bold rounded-lg transition-all ${config.protocol === protocol ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {protocol}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        {legend.map(state => (
+          <span key={state} className="flex items-center gap-1 text-[10px] text-gray-500">
+            <span className={`w-4 h-4 rounded flex items-center justify-center font-black ${STATE_STYLES[state].className}`}>{state}</span>
+            {STATE_STYLES[state].label}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-4 mb-6">
+        {caches.map((cache, g) => {
+          const gatewayStats = stats.gatewayStats[g];
+          const found = gatewayStats.accesses > 0 ? (gatewayStats.hits / gatewayStats.accesses) * 100 : 0;
+          return (
+            <div key={g}>
+              <p className="text-xs font-bold text-gray-400 uppercase mb-2">
+                Gateway {g + 1} · {gatewayStats.accesses} readings · found {found.toFixed(0)}%
+              </p>
+              <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+                {cache.map((block, slot) => {
+                  const state = states[g][slot];
+                  const range = system.getAddressRange(g, block);
+                  const owner = range ? network.locate(range.start) : null;
+                  return (
+                    <button
+                      key={slot}
+                      disabled={!range}
+                      onClick={() => range && setSelected(selected === range.start ? null : range.start)}
+                      title={owner ? `${owner.sensor.type} on ${owner.node.name}` : undefined}
+                      className={`p-2 rounded-xl border-2 flex flex-col items-center text-center transition-all ${
+                        range && range.start === selected ? 'border-yellow-400 bg-yellow-50' : range ? 'border-gray-100 bg-white' : 'border-dashed border-gray-200 bg-gray-50'
+                      }`}
+                    >
+                      <span className={`w-5 h-5 rounded flex items-center justify-center text-[10px] font-black ${STATE_STYLES[state].className}`}>{state}</span>
+                      <span className="text-[10px] font-mono font-bold text-gray-500 mt-1">{range ? formatAddress(range.start) : '—'}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+        <div className="p-3 rounded-xl bg-slate-50">
+          <p className="text-[10px] font-bold text-gray-400 uppercase">Bus Requests</p>
+          <p className="font-bold text-gray-700">{stats.bus.BusRd + stats.bus.BusRdX + stats.bus.BusUpgr}</p>
+          <p className="text-[10px] text-gray-400">{stats.bus.BusRd} read · {stats.bus.BusRdX} write · {stats.bus.BusUpgr} upgrade</p>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-50">
+          <p className="text-[10px] font-bold text-gray-400 uppercase">Invalidations</p>
+          <p className="font-bold text-red-500">{stats.invalidations}</p>
+          <p className="text-[10px] text-gray-400">copies dropped</p>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-50">
+          <p className="text-[10px] font-bold text-gray-400 uppercase">Lost to Others</p>
+          <p className="font-bold text-gray-700">{stats.coherenceMisses}</p>
+          <p className="text-[10px] text-gray-400">misses after an invalidation</p>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-50">
+          <p className="text-[10px] font-bold text-gray-400 uppercase">Flushes</p>
+          <p className="font-bold text-orange-500">{stats.bus.Flush}</p>
+          <p className="text-[10px] text-gray-400">changed lines saved</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-bold text-gray-400 uppercase mb-2">
+          {selected === null ? 'Latest state changes · pick a slot to follow its line' : `State changes for ${formatAddress(selected)}`}
+        </p>
+        {transitions.length > 0 ? (
+          <ul className="space-y-1 text-xs">
+            {transitions.map((t, i) => (
+              <li key={`${t.time}-${i}`} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50">
+                <span className="text-gray-400 w-10 shrink-0">#{t.time}</span>
+                <span className="font-bold text-gray-600 w-20 shrink-0">Gateway {t.gateway + 1}</span>
+                <span className="font-mono text-gray-500 w-12 shrink-0">{formatAddress(t.address)}</span>
+                <span className={`px-1.5 rounded font-black ${STATE_STYLES[t.from].className}`}>{t.from}</span>
+                <span className="text-gray-300">→</span>
+                <span className={`px-1.5 rounded font-black ${STATE_STYLES[t.to].className}`}>{t.to}</span>
+                <span className="text-gray-400 truncate">{CAUSE_LABELS[t.cause]}{t.bus && ` (${t.bus})`}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400 py-4 text-center">No state changes yet</p>
+        )}
+      </div>
+    </Card>
+  );
+};
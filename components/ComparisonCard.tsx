@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell
+} from 'recharts';
+import { CacheConfig, ComparisonStats, MappingType, ReplacementPolicy } from '../types';
+import { COLORS, CACHE_SIZES, BLOCK_SIZES } from '../constants';
+import { Card } from './Card';
+
+export const MIN_SETUPS = 2;
+export const MAX_SETUPS = 4;
+
+const SETUP_COLORS = [COLORS.primary, COLORS.success, COLORS.warning, COLORS.error];
+// OPT cannot run live, the future of the stream is unknown
+const LIVE_POLICIES = Object.values(ReplacementPolicy).filter(p => p !== ReplacementPolicy.OPT);
+
+const setupName = (index: number) => `Setup ${String.fromCharCode(65 + index)}`;
+
+type ChartMetric = 'hitRatio' | 'amat';
+
+interface ComparisonCardProps {
+  setups: CacheConfig[];
+  history: { time: string; stats: ComparisonStats[] }[];
+  onChange: (setups: CacheConfig[]) => void;
+}
+
+export const ComparisonCard: React.FC<ComparisonCardProps> = ({ setups, history, onChange }) => {
+  const [metric, setMetric] = useState<ChartMetric>('hitRatio');
+
+  const latest = history[history.length - 1]?.stats;
+  const chartData = history.map(point => ({
+    time: point.time,
+    ...Object.fromEntries(point.stats.map((s, i) => [setupName(i), Number(s[metric].toFixed(1))]))
+  }));
+  const evictionData = setups.map((_, i) => ({ name: setupName(i), evictions: latest?.[i]?.evictions ?? 0 }));
+
+  const updateSetup = (index: number, patch: Partial<CacheConfig>) =>
+    onChange(setups.map((setup, i) => (i === index ? { ...setup, ...patch } : setup)));
+
+  return (
+    <Card className="md:col-span-2">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-800">Storage Performance</h3>
+          <p className="text-xs text-gray-400">Every setup receives the same readings at the same time</p>
+        </div>
+        <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+          {([['hitRatio', 'Success %'], ['amat', 'Delay']] as [ChartMetric, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1 text-[10px] font-bold rounded-lg transition-all ${metric === key ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+        {setups.map((setup, i) => (
+          <div key={i} className="p-3 rounded-2xl bg-slate-50 border-2 space-y-2" style={{ borderColor: `${SETUP_COLORS[i]}40` }}>
+            <div className="flex justify-between items-center">
+              <span className="text-xs font-black uppercase" style={{ color: SETUP_COLORS[i] }}>{setupName(i)}</span>
+              {setups.length > MIN_SETUPS && (
+                <button onClick={() => onChange(setups.filter((_, j) => j !== i))} className="text-gray-300 hover:text-gray-500">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            <select value={setup.size} onChange={e => updateSetup(i, { size: Number(e.target.value) })} className="w-full px-2 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 bg-white">
+              {CACHE_SIZES.map(s => <option key={s} value={s}>{s} slots</option>)}
+            </select>
+            <select value={setup.mapping} onChange={e => updateSetup(i, { mapping: e.target.value as MappingType })} className="w-full px-2 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 bg-white">
+              {Object.values(MappingType).map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <select value={setup.policy} onChange={e => updateSetup(i, { policy: e.target.value as ReplacementPolicy })} className="w-full px-2 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 bg-white">
+              {LIVE_POLICIES.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select value={setup.blockSize} onChange={e => updateSetup(i, { blockSize: Number(e.target.value) })} className="w-full px-2 py-1 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 bg-white">
+              {BLOCK_SIZES.map(b => <option key={b} value={b}>{b} per slot</option>)}
+            </select>
+            {latest?.[i] && (
+              <div className="flex justify-between text-[10px] font-bold text-gray-500 pt-1">
+                <span>{latest[i].hitRatio.toFixed(1)} %</span>
+                <span>{latest[i].amat.toFixed(1)} ms</span>
+              </div>
+            )}
+          </div>
+        ))}
+        {setups.length < MAX_SETUPS && (
+          <button
+            onClick={() => onChange([...setups, { ...setups[setups.length - 1] }])}
+            className="p-3 rounded-2xl border-2 border-dashed border-gray-200 text-gray-400 hover:text-gray-600 flex flex-col items-center justify-center gap-1 text-xs font-bold"
+          >
+            <Plus size={18} /> Add Setup
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="h-64 lg:col-span-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis dataKey="time" hide />
+              <YAxis domain={metric === 'hitRatio' ? [0, 100] : ['auto', 'auto']} stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} />
+              <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+              {setups.map((_, i) => (
+                <Line key={i} type="monotone" dataKey={setupName(i)} stroke={SETUP_COLORS[i]} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={evictionData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={10} />
+              <YAxis hide />
+              <Tooltip cursor={{fill: '#f8fafc'}} />
+              <Bar dataKey="evictions" radius={[10, 10, 0, 0]} barSize={32}>
+                {evictionData.map((_, i) => <Cell key={i} fill={SETUP_COLORS[i]} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+          <p className="text-center text-xs font-bold text-gray-500">Items Removed</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,213 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { SkipBack, ChevronLeft, ChevronRight, SkipForward, Camera, X, Bug } from 'lucide-react';
+import { AccessKind, CacheEvent, HierarchyConfig, TraceRecord } from '../types';
+import { CacheSimulationEngine } from '../services/simulationEngine';
+import { DebugSnapshot, TraceDebugger } from '../services/traceDebugger';
+import { AddressSplit, formatAddress } from './AddressSplit';
+import { Card } from './Card';
+
+const levelName = (config: HierarchyConfig, level: number) =>
+  level < config.levels.length ? config.levels[level].name : 'Main Warehouse';
+
+const describeEvent = (config: HierarchyConfig, event: CacheEvent): string => {
+  const where = levelName(config, event.level);
+  switch (event.type) {
+    case 'hit':
+      return `${where}: found ${formatAddress(event.address)}`;
+    case 'miss':
+      return `${where}: ${formatAddress(event.address)} missing${event.missType ? ` (${event.missType.toLowerCase()})` : ''}`;
+    case 'fill':
+      return `${where}: stored ${formatAddress(event.address)} in slot ${event.slot}`;
+    case 'evict':
+      return `${where}: removed ${formatAddress(event.address)} from slot ${event.slot}${event.dirty ? ' (unsaved)' : ''}${event.unusedPrefetch ? ' (fetched early, never used)' : ''}${event.expired ? ' (too old to serve)' : ''}`;
+    case 'prefetch':
+      return `${where}: fetched ${formatAddress(event.address)} early from ${levelName(config, event.from)} into slot ${event.slot}`;
+    case 'refresh':
+      return `${where}: refreshed ${formatAddress(event.address)} in slot ${event.slot} before it expired`;
+    case 'write-back':
+      return `${where}: received unsaved ${formatAddress(event.address)}`;
+  }
+};
+
+interface DebuggerCardProps {
+  config: HierarchyConfig;
+  sessionTrace: TraceRecord[];
+}
+
+export const DebuggerCard: React.FC<DebuggerCardProps> = ({ config, sessionTrace }) => {
+  const [trace, setTrace] = useState<TraceRecord[] | null>(null);
+  const [step, setStep] = useState(0);
+  const [snapshots, setSnapshots] = useState<DebugSnapshot[]>([]);
+
+  const debug = useMemo(() => trace && new TraceDebugger(config, trace), [config, trace]);
+
+  // Snapshots belong to one replay; a new trace or setup starts a fresh list
+  useEffect(() => {
+    setSnapshots([]);
+    setStep(current => Math.min(current, trace?.length ?? 0));
+  }, [debug]);
+
+  if (!debug || !trace) {
+    return (
+      <Card>
+        <h3 className="font-bold text-lg mb-1">Step Through</h3>
+        <p className="text-xs text-gray-400 mb-4">Replay this session one reading at a time and see exactly why each slot was chosen</p>
+        <button
+          disabled={sessionTrace.length === 0}
+          onClick={() => { setTrace([...sessionTrace]); setStep(1); }}
+          className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-100 flex items-center justify-center gap-2 disabled:opacity-40"
+        >
+          <Bug size={16} /> Load {sessionTrace.length} Recorded Readings
+        </button>
+      </Card>
+    );
+  }
+
+  const frame = debug.frame(step);
+  const caches = debug.cachesAt(step);
+  const first = frame?.result.first;
+  const engine = debug.getEngine(0);
+  const ways = CacheSimulationEngine.getWays(config.levels[0].mapping, config.levels[0].size);
+  const setSlots = first ? Array.from({ length: ways }, (_, way) => first.breakdown.index * ways + way) : [];
+  const go = (target: number) => setStep(Math.max(0, Math.min(debug.length, target)));
+
+  return (
+    <Card>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="font-bold text-lg">Step Through</h3>
+          <p className="text-xs text-gray-400">Reading {step} of {debug.length}</p>
+        </div>
+        <button onClick={() => setTrace(null)} className="text-gray-300 hover:text-gray-500">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        {[
+          { icon: <SkipBack size={16} />, target: 0 },
+          { icon: <ChevronLeft size={16} />, target: step - 1 },
+          { icon: <ChevronRight size={16} />, target: step + 1 },
+          { icon: <SkipForward size={16} />, target: debug.length }
+        ].map(({ icon, target }, i) => (
+          <button
+            key={i}
+            disabled={target === step || target < 0 || target > debug.length}
+            onClick={() => go(target)}
+            className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:text-gray-700 disabled:opacity-40"
+          >
+            {icon}
+          </button>
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={debug.length}
+          value={step}
+          onChange={e => go(Number(e.target.value))}
+          className="flex-1 accent-blue-600"
+        />
+      </div>
+
+      {frame && first ? (
+        <div className="space-y-4 mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-slate-50 rounded-2xl">
+            <div>
+              <p className="text-xs font-bold text-gray-400 uppercase">{frame.record.kind === AccessKind.WRITE ? 'Save' : 'Lookup'} · {frame.record.sensor.type}</p>
+              <p className="font-mono text-sm font-bold text-gray-700">{formatAddress(frame.record.sensor.address)}</p>
+            </div>
+            <AddressSplit breakdown={first.breakdown} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <div className="p-3 rounded-xl border border-gray-100">
+              <p className="text-[10px] font-bold text-gray-400 uppercase mb-1">Outcome</p>
+              <p className={`font-bold ${first.hit ? 'text-green-600' : 'text-red-500'}`}>
+                {first.hit ? 'Found on the shelf' : `Missing${first.missType ? ` · ${first.missType}` : ''}`}
+              </p>
+              <p className="text-xs text-gray-500">Served by {levelName(config, frame.result.servedBy)} · set {first.breakdown.index}</p>
+            </div>
+            <div className="p-3 rounded-xl border border-gray-100">
+              <p className="text-[10px] font-bold text-gray-400 uppercase mb-1">Slot Choice</p>
+              {first.replacedId !== null ? (
+                <>
+                  <p className="font-bold text-gray-700">
+                    Slot {first.replacedId}{first.evictedAddress !== null && <> · removed {formatAddress(first.evictedAddress)}</>}
+                  </p>
+                  <p className="text-xs text-gray-500">{first.victimReason}</p>
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">{first.hit ? 'Nothing replaced' : 'Sent straight to the warehouse'}</p>
+              )}
+            </div>
+          </div>
+          <ul className="text-xs text-gray-500 space-y-1">
+            {frame.result.events.map((event, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="font-bold uppercase text-[10px] text-gray-300 w-16 shrink-0">{event.type}</span>
+                {describeEvent(config, event)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400 mb-6">Empty shelf, before the first reading</p>
+      )}
+
+      <div className="grid grid-cols-4 sm:grid-cols-8 gap-2 mb-6">
+        {caches[0].map((block, idx) => {
+          const range = engine.getAddressRange(block);
+          const inSet = setSlots.includes(idx);
+          return (
+            <div
+              key={idx}
+              className={`p-2 rounded-xl border-2 text-center ${
+                first?.replacedId === idx ? 'border-red-400 bg-red-50'
+                  : first?.hit && inSet && block.tag === first.breakdown.tag ? 'border-green-400 bg-green-50'
+                  : inSet ? 'border-orange-200 bg-orange-50'
+                  : 'border-gray-100 bg-white'
+              }`}
+            >
+              <p className="text-[9px] font-black text-gray-300 uppercase">Slot {idx}</p>
+              <p className="text-[10px] font-bold font-mono text-blue-600">{range ? formatAddress(range.start) : '—'}</p>
+              <p className="text-[9px] text-gray-400">{block.tag !== null ? `t${block.lastUsed}` : ''}</p>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-gray-400 mb-6">
+        Orange: the set this reading maps to ({ways === caches[0].length ? 'any slot' : `${ways} slots`}). Red: the slot that was filled. t = last used tick.
+      </p>
+
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-xs font-bold text-gray-400 uppercase">Snapshots</label>
+        <button
+          onClick={() => setSnapshots(prev => [...prev, debug.snapshot(`Snapshot ${prev.length + 1}`, step)])}
+          className="px-3 py-1 rounded-full text-xs font-bold bg-gray-100 text-gray-500 flex items-center gap-1"
+        >
+          <Camera size={12} /> Save
+        </button>
+      </div>
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-gray-400">Save a snapshot to come back to this exact moment later.</p>
+      ) : (
+        <ul className="space-y-2">
+          {snapshots.map((snapshot, i) => (
+            <li key={i} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-50 text-xs">
+              <span className="font-bold text-gray-600">{snapshot.name}</span>
+              <span className="text-gray-400">
+                reading {snapshot.step} · {snapshot.caches[0].filter(b => b.tag !== null).length} slots used
+              </span>
+              <div className="flex gap-2">
+                <button onClick={() => go(snapshot.step)} className="font-bold text-blue-600">Restore</button>
+                <button onClick={() => setSnapshots(prev => prev.filter((_, j) => j !== i))} className="text-gray-300 hover:text-gray-500">
+                  <X size={12} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
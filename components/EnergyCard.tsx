@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { EnergyCosts, EnergyReport } from '../types';
+import { BATTERY_JOULES } from '../constants';
+import { Card } from './Card';
+import { NumberField } from './NumberField';
+
+const COST_FIELDS: { key: keyof EnergyCosts; label: string }[] = [
+  { key: 'cacheHit', label: 'Shelf Hit µJ' },
+  { key: 'cacheMiss', label: 'Shelf Miss µJ' },
+  { key: 'memoryAccess', label: 'Warehouse µJ' },
+  { key: 'writeBack', label: 'Save Back µJ' },
+  { key: 'radio', label: 'Radio Send µJ' }
+];
+
+const COMPONENT_COLORS = ['bg-green-500', 'bg-red-400', 'bg-blue-500', 'bg-orange-400', 'bg-purple-500'];
+
+const formatMicrojoules = (uj: number) => (uj >= 1e6 ? `${(uj / 1e6).toFixed(2)} J` : uj >= 1e3 ? `${(uj / 1e3).toFixed(1)} mJ` : `${uj.toFixed(1)} µJ`);
+
+// Readings one battery lasts at a given cost per reading
+const formatBatteryReadings = (perReading: number) => {
+  if (perReading <= 0) return '—';
+  const readings = (BATTERY_JOULES * 1e6) / perReading;
+  return readings >= 1e9 ? `${(readings / 1e9).toFixed(1)} bn` : readings >= 1e6 ? `${(readings / 1e6).toFixed(1)} M` : readings.toFixed(0);
+};
+
+interface EnergyCardProps {
+  report: EnergyReport;
+  costs: EnergyCosts;
+  onChange: (costs: EnergyCosts) => void;
+}
+
+export const EnergyCard: React.FC<EnergyCardProps> = ({ report, costs, onChange }) => (
+  <Card>
+    <h3 className="font-bold text-lg mb-1">Battery Use</h3>
+    <p className="text-xs text-gray-400 mb-6">Energy per reading against a field with no shelf, where every reading goes over the radio</p>
+
+    <div className="grid grid-cols-3 gap-3 mb-6 text-center">
+      <div className="p-3 rounded-xl bg-slate-50">
+        <p className="text-[10px] font-bold text-gray-400 uppercase">Per Reading</p>
+        <p className="font-bold text-gray-700">{formatMicrojoules(report.perReading)}</p>
+      </div>
+      <div className="p-3 rounded-xl bg-slate-50">
+        <p className="text-[10px] font-bold text-gray-400 uppercase">No Shelf</p>
+        <p className="font-bold text-gray-700">{formatMicrojoules(report.baselinePerReading)}</p>
+      </div>
+      <div className="p-3 rounded-xl bg-slate-50">
+        <p className="text-[10px] font-bold text-gray-400 uppercase">Saved</p>
+        <p className={`font-bold ${report.savings >= 0 ? 'text-green-600' : 'text-red-500'}`}>{report.savings.toFixed(1)}%</p>
+      </div>
+    </div>
+
+    <div className="space-y-3 mb-6">
+      {report.components.map((component, i) => {
+        const share = report.total > 0 ? (component.microjoules / report.total) * 100 : 0;
+        return (
+          <div key={component.label}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="font-bold text-gray-500">{component.label}</span>
+              <span className="text-gray-400">{formatMicrojoules(component.microjoules)} · {share.toFixed(0)}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className={`h-full ${COMPONENT_COLORS[i]}`} style={{ width: `${share}%` }}></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+
+    <p className="p-3 bg-green-50 rounded-xl text-green-700 text-xs mb-6">
+      Two AA cells last {formatBatteryReadings(report.perReading)} readings with this setup, {formatBatteryReadings(report.baselinePerReading)} without a shelf.
+    </p>
+
+    <div className="space-y-2">
+      {COST_FIELDS.map(({ key, label }) => (
+        <NumberField key={key} label={label} value={costs[key]} min={0} max={100_000} step={0.1} onChange={value => onChange({ ...costs, [key]: value })} />
+      ))}
+    </div>
+  </Card>
+);
@@ -0,0 +1,111 @@
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LatencyConfig, LatencyDistribution, LatencyStats, TierLatency } from '../types';
+import { COLORS } from '../constants';
+import { latencyHistogram, latencyPercentile, meanLatency } from '../services/latencyModel';
+import { Card } from './Card';
+import { NumberField } from './NumberField';
+
+const HISTOGRAM_BARS = 24;
+
+type Tier = Exclude<keyof LatencyConfig, 'seed'>;
+
+const TIERS: { key: Tier; label: string }[] = [
+  { key: 'shelf', label: 'Handy Shelf' },
+  { key: 'gateway', label: 'Gateway Buffer' },
+  { key: 'warehouse', label: 'Warehouse (over the radio)' }
+];
+
+const DISTRIBUTION_LABELS: Record<LatencyDistribution, string> = {
+  [LatencyDistribution.FIXED]: 'Always the Same',
+  [LatencyDistribution.NORMAL]: 'Varies a Little',
+  [LatencyDistribution.LONG_TAIL]: 'Sometimes Very Slow'
+};
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms.toFixed(ms < 10 ? 2 : 1)} ms`);
+
+interface LatencyCardProps {
+  stats: LatencyStats;
+  config: LatencyConfig;
+  hasGateway: boolean;
+  onChange: (config: LatencyConfig) => void;
+}
+
+export const LatencyCard: React.FC<LatencyCardProps> = ({ stats, config, hasGateway, onChange }) => {
+  const histogram = latencyHistogram(stats, HISTOGRAM_BARS).map(bar => ({ upTo: formatMs(bar.upTo), readings: bar.count }));
+  const tiles = [
+    { label: 'Half Within', value: latencyPercentile(stats, 50), note: 'p50' },
+    { label: '95 in 100 Within', value: latencyPercentile(stats, 95), note: 'p95' },
+    { label: '99 in 100 Within', value: latencyPercentile(stats, 99), note: 'p99' },
+    { label: 'Average', value: meanLatency(stats), note: `slowest ${formatMs(stats.max)}` }
+  ];
+
+  const updateTier = (key: Tier, patch: Partial<TierLatency>) =>
+    onChange({ ...config, [key]: { ...config[key], ...patch } });
+
+  return (
+    <Card className="md:col-span-2">
+      <h3 className="font-bold text-lg mb-1">Response Times</h3>
+      <p className="text-xs text-gray-400 mb-6">
+        Every one of the {stats.samples} readings timed on its own. Watering deadlines are missed by the slow ones, not the average.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 rounded-xl bg-slate-50">
+            <p className="text-[10px] font-bold text-gray-400 uppercase">{tile.label}</p>
+            <p className="font-bold text-gray-700">{formatMs(tile.value)}</p>
+            <p className="text-[10px] text-gray-400">{tile.note}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-48 mb-6">
+        {histogram.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis dataKey="upTo" axisLine={false} tickLine={false} fontSize={10} />
+              <YAxis hide />
+              <Tooltip cursor={{ fill: '#f8fafc' }} labelFormatter={label => `Up to ${label}`} />
+              <Bar dataKey="readings" fill={COLORS.primary} radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="h-full flex items-center justify-center text-sm text-gray-400">No readings timed yet</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {TIERS.filter(tier => tier.key !== 'gateway' || hasGateway).map(({ key, label }) => {
+          const tier = config[key];
+          return (
+            <div key={key} className="space-y-2">
+              <p className="text-xs font-bold text-gray-400 uppercase">{label}</p>
+              <div className="flex flex-col gap-1">
+                {Object.values(LatencyDistribution).map(distribution => (
+                  <button
+                    key={distribution}
+                    onClick={() => updateTier(key, { distribution })}
+                    className={`w-full py-2 px-3 text-left rounded-xl text-xs font-bold border transition-all ${tier.distribution === distribution ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}
+                  >
+                    {DISTRIBUTION_LABELS[distribution]}
+                  </button>
+                ))}
+              </div>
+              <NumberField label="Average ms" value={tier.mean} min={0} max={60_000} step={0.1} onChange={mean => updateTier(key, { mean })} />
+              {tier.distribution !== LatencyDistribution.FIXED && (
+                <NumberField label="Spread ms" value={tier.deviation} min={0} max={60_000} step={0.1} onChange={deviation => updateTier(key, { deviation })} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 md:w-1/3">
+        <NumberField label="Seed" value={config.seed} min={0} max={2 ** 32 - 1} onChange={seed => onChange({ ...config, seed })} />
+      </div>
+    </Card>
+  );
+};
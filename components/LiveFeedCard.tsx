@@ -0,0 +1,122 @@
+
+import React, { useState } from 'react';
+import { Radio, Square, AlertCircle } from 'lucide-react';
+import { FeedOptions, FeedProtocol, FeedStats, FeedStatus } from '../services/sensorFeed';
+import { Card } from './Card';
+
+const PROTOCOLS: { value: FeedProtocol; label: string }[] = [
+  { value: 'websocket', label: 'WebSocket' },
+  { value: 'mqtt', label: 'MQTT' }
+];
+
+const STATUS_STYLES: Record<FeedStatus, { label: string; className: string }> = {
+  idle: { label: 'Off', className: 'bg-gray-100 text-gray-500' },
+  connecting: { label: 'Connecting', className: 'bg-blue-50 text-blue-600' },
+  live: { label: 'Live', className: 'bg-green-50 text-green-700' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-amber-50 text-amber-700' }
+};
+
+interface LiveFeedCardProps {
+  status: FeedStatus;
+  retryInMs: number | null;
+  stats: FeedStats | null;
+  onConnect: (options: FeedOptions) => void;
+  onDisconnect: () => void;
+}
+
+export const LiveFeedCard: React.FC<LiveFeedCardProps> = ({ status, retryInMs, stats, onConnect, onDisconnect }) => {
+  const [url, setUrl] = useState('ws://localhost:8080');
+  const [protocol, setProtocol] = useState<FeedProtocol>('websocket');
+  const [topic, setTopic] = useState('agricache/readings');
+
+  const connected = status !== 'idle';
+  const style = STATUS_STYLES[status];
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold text-lg">Live Feed</h3>
+        <span className={`px-2 py-1 rounded-lg text-[10px] font-bold uppercase ${style.className}`}>
+          {style.label}
+          {status === 'reconnecting' && retryInMs !== null && ` in ${Math.round(retryInMs / 1000)} s`}
+        </span>
+      </div>
+      <div className="space-y-4">
+        <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+          {PROTOCOLS.map(opt => (
+            <button
+              key={opt.value}
+              disabled={connected}
+              onClick={() => setProtocol(opt.value)}
+              className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg transition-all disabled:opacity-60 ${protocol === opt.value ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="block">
+          <span className="text-[10px] font-bold text-gray-400 uppercase">Address</span>
+          <input
+            value={url}
+            disabled={connected}
+            onChange={e => setUrl(e.target.value)}
+            className="mt-1 w-full px-3 py-2 text-xs font-mono bg-slate-50 rounded-xl border border-gray-200 disabled:text-gray-400"
+          />
+        </label>
+        {protocol === 'mqtt' && (
+          <label className="block">
+            <span className="text-[10px] font-bold text-gray-400 uppercase">Topic</span>
+            <input
+              value={topic}
+              disabled={connected}
+              onChange={e => setTopic(e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-xs font-mono bg-slate-50 rounded-xl border border-gray-200 disabled:text-gray-400"
+            />
+          </label>
+        )}
+
+        <button
+          onClick={connected ? onDisconnect : () => onConnect({ url: url.trim(), protocol, topic: topic.trim() })}
+          disabled={!connected && (url.trim() === '' || (protocol === 'mqtt' && topic.trim() === ''))}
+          className={`w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50 ${connected ? 'bg-red-50 text-red-600' : 'bg-blue-600 text-white'}`}
+        >
+          {connected ? <><Square size={14} /> Disconnect</> : <><Radio size={14} /> Listen for Readings</>}
+        </button>
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-3 rounded-xl bg-slate-50">
+                <p className="text-[10px] font-bold text-gray-400 uppercase">Arrived</p>
+                <p className="font-bold text-gray-700">{stats.received}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-slate-50">
+                <p className="text-[10px] font-bold text-gray-400 uppercase">Stored</p>
+                <p className="font-bold text-green-600">{stats.accepted}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-slate-50">
+                <p className="text-[10px] font-bold text-gray-400 uppercase">Rejected</p>
+                <p className={`font-bold ${stats.rejected > 0 ? 'text-red-500' : 'text-gray-700'}`}>{stats.rejected}</p>
+              </div>
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Waiting: <span className="font-bold">{stats.queued}</span></span>
+              <span>Lost to overflow: <span className="font-bold">{stats.dropped}</span></span>
+              {stats.paused && <span className="font-bold text-amber-600">Sender paused</span>}
+            </div>
+            {stats.lastError && (
+              <p className="p-3 bg-red-50 rounded-xl text-red-600 text-xs flex gap-2">
+                <AlertCircle size={12} className="mt-0.5 shrink-0" /> {stats.lastError}
+              </p>
+            )}
+          </>
+        )}
+
+        <p className="text-[10px] text-gray-400">
+          No hardware? Run <span className="font-mono">npm run broker -- --trace field.csv</span> to replay a recording here.
+        </p>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,30 @@
+
+import React from 'react';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+// Clamps on every keystroke so the owner never sees an out-of-range value
+export const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step = 1, onChange }) => (
+  <label className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-50 text-xs font-bold text-gray-400 uppercase">
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={e => {
+        const n = Number(e.target.value);
+        if (!Number.isNaN(n)) onChange(Math.min(max, Math.max(min, step === 1 ? Math.round(n) : n)));
+      }}
+      className="w-20 px-2 py-1 rounded-lg border border-gray-200 text-sm text-gray-700 text-right"
+    />
+  </label>
+);
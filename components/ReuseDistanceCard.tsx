@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { ReuseProfile } from '../types';
+import { CACHE_SIZES, COLORS } from '../constants';
+import { missRatioCurve, recommendSize, reuseHistogram } from '../services/reuseDistance';
+import { Card } from './Card';
+import { NumberField } from './NumberField';
+
+const DEFAULT_TARGET_HIT_RATIO = 90;
+
+interface ReuseDistanceCardProps {
+  profile: ReuseProfile;
+  currentSize: number;
+  blockSize: number;
+}
+
+export const ReuseDistanceCard: React.FC<ReuseDistanceCardProps> = ({ profile, currentSize, blockSize }) => {
+  const [target, setTarget] = useState(DEFAULT_TARGET_HIT_RATIO);
+
+  const curve = missRatioCurve(profile);
+  const histogram = reuseHistogram(profile);
+  const recommended = recommendSize(curve, target);
+  // Sizes past the last point miss only first uses, like the last point
+  const missRatioAt = (size: number) => curve[Math.min(size, curve.length) - 1]?.missRatio ?? 0;
+  const offered = recommended === null ? undefined : CACHE_SIZES.find(size => size >= recommended);
+  const bestHitRatio = profile.accesses > 0 ? 100 - (profile.coldMisses / profile.accesses) * 100 : 0;
+
+  return (
+    <Card className="md:col-span-2">
+      <h3 className="font-bold text-lg mb-1">How Big Should the Shelf Be?</h3>
+      <p className="text-xs text-gray-400 mb-6">
+        All {profile.accesses} readings this session, replayed once against every shelf size at the same time
+        (each slot holding {blockSize} {blockSize === 1 ? 'reading' : 'readings'}, any slot for any reading, removing the oldest used)
+      </p>
+
+      {profile.accesses === 0 ? (
+        <p className="py-10 text-center text-sm text-gray-400">No readings yet</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Your Shelf</p>
+              <p className="font-bold text-gray-700">{(100 - missRatioAt(currentSize)).toFixed(1)}%</p>
+              <p className="text-[10px] text-gray-400">found at {currentSize} slots</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Recommended</p>
+              <p className="font-bold text-green-600">{recommended === null ? '—' : `${recommended} slots`}</p>
+              <p className="text-[10px] text-gray-400">
+                {recommended === null ? `never reaches ${target}%` : offered !== undefined ? `choose ${offered} slots` : 'larger than offered'}
+              </p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Best Possible</p>
+              <p className="font-bold text-gray-700">{bestHitRatio.toFixed(1)}%</p>
+              <p className="text-[10px] text-gray-400">only first uses miss</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Lines Used</p>
+              <p className="font-bold text-gray-700">{profile.distinctLines}</p>
+              <p className="text-[10px] text-gray-400">no gain past this size</p>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <NumberField label="Target found %" value={target} min={1} max={100} onChange={setTarget} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={curve}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                    <XAxis dataKey="size" type="number" domain={[1, 'dataMax']} stroke="#9ca3af" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} stroke="#9ca3af" fontSize={10} tickLine={false} axisLine={false} />
+                    <Tooltip
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                      labelFormatter={size => `${size} slots`}
+                      formatter={value => [`${Number(value).toFixed(1)}%`, 'Missed']}
+                    />
+                    <ReferenceLine y={100 - target} stroke={COLORS.warning} strokeDasharray="4 4" />
+                    {currentSize <= curve.length && <ReferenceLine x={currentSize} stroke={COLORS.primary} strokeDasharray="4 4" />}
+                    {recommended !== null && <ReferenceLine x={recommended} stroke={COLORS.success} strokeWidth={2} />}
+                    <Line type="stepAfter" dataKey="missRatio" stroke={COLORS.primary} strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-center text-xs font-bold text-gray-500">Missed % by Shelf Size</p>
+            </div>
+            <div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogram}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                    <XAxis dataKey="label" axisLine={false} tickLine={false} fontSize={10} />
+                    <YAxis hide />
+                    <Tooltip cursor={{ fill: '#f8fafc' }} />
+                    <Bar dataKey="count" fill={COLORS.success} radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-center text-xs font-bold text-gray-500">Other Slots Used Before Each Reuse</p>
+            </div>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
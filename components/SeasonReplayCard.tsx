@@ -0,0 +1,148 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { HierarchyConfig, WorkloadConfig } from '../types';
+import { COLORS } from '../constants';
+import { SeasonProgress, seasonReadings } from '../services/seasonRunner';
+import { startSeasonReplay } from '../services/seasonReplay';
+import { Card } from './Card';
+
+const SEASON_LENGTHS = [30, 90, 180];
+
+const formatCount = (n: number) => (n >= 1e6 ? `${(n / 1e6).toFixed(2)} M` : n >= 1e3 ? `${(n / 1e3).toFixed(0)} k` : `${n}`);
+
+interface SeasonReplayCardProps {
+  config: HierarchyConfig;
+  workload: WorkloadConfig;
+}
+
+export const SeasonReplayCard: React.FC<SeasonReplayCardProps> = ({ config, workload }) => {
+  const [days, setDays] = useState(SEASON_LENGTHS[2]);
+  const [progress, setProgress] = useState<SeasonProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  const readings = seasonReadings(days, workload.sensorCount);
+
+  const stop = () => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    setRunning(false);
+  };
+
+  // A result only describes the setup it ran with
+  useEffect(() => {
+    stop();
+    setProgress(null);
+    setError(null);
+  }, [config, workload, days]);
+
+  useEffect(() => stop, []);
+
+  const start = () => {
+    stop();
+    setProgress(null);
+    setError(null);
+    setRunning(true);
+    cancelRef.current = startSeasonReplay({ config, workload, readings }, message => {
+      if (message.type === 'error') {
+        setError(message.message);
+        setRunning(false);
+        return;
+      }
+      setProgress(message);
+      if (message.type === 'done') setRunning(false);
+    });
+  };
+
+  const share = progress ? (progress.done / progress.total) * 100 : 0;
+  const perSecond = progress && progress.elapsedMs > 0 ? (progress.done / progress.elapsedMs) * 1000 : 0;
+  const chartData = (progress?.curve ?? []).map(p => ({ readings: p.readings, hitRatio: Number(p.hitRatio.toFixed(1)) }));
+
+  return (
+    <Card className="md:col-span-2">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-800">Whole Season Replay</h3>
+          <p className="text-xs text-gray-400">
+            {formatCount(readings)} readings: {workload.sensorCount} sensors reporting every 15 minutes, run in the background
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+            {SEASON_LENGTHS.map(d => (
+              <button
+                key={d}
+                onClick={() => setDays(d)}
+                className={`px-3 py-1 text-[10px] font-bold rounded-lg transition-all ${days === d ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {d} days
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={running ? stop : start}
+            className={`px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 ${running ? 'bg-red-50 text-red-600' : 'bg-blue-600 text-white'}`}
+          >
+            {running ? <><Square size={12} /> Stop</> : <><Play size={12} /> Run Season</>}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="p-3 mb-4 bg-red-50 rounded-xl text-red-600 text-xs">{error}</p>}
+
+      {progress ? (
+        <>
+          <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden mb-6">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${share}%` }}></div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Readings</p>
+              <p className="font-bold text-gray-700">{formatCount(progress.done)}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Found on Shelf</p>
+              <p className="font-bold text-green-600">{progress.stats.hitRatio.toFixed(1)}%</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Avg. Delay</p>
+              <p className="font-bold text-gray-700">{progress.stats.amat.toFixed(2)} ms</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50">
+              <p className="text-[10px] font-bold text-gray-400 uppercase">Speed</p>
+              <p className="font-bold text-gray-700">{formatCount(Math.round(perSecond))}/s</p>
+              <p className="text-[10px] text-gray-400">{(progress.elapsedMs / 1000).toFixed(1)} s so far</p>
+            </div>
+          </div>
+
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                <XAxis dataKey="readings" type="number" domain={[0, progress.total]} tickFormatter={formatCount} stroke="#9ca3af" fontSize={10} />
+                <YAxis stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+                <Tooltip
+                  labelFormatter={n => `${formatCount(Number(n))} readings`}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Line type="monotone" dataKey="hitRatio" name="Found on Shelf" stroke={COLORS.primary} strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : (
+        !error && (
+          <div className="h-32 flex items-center justify-center text-sm text-gray-400">
+            {running ? 'Starting…' : 'Runs the current storage setup and traffic from empty shelves, with the same results as the live view'}
+          </div>
+        )
+      )}
+    </Card>
+  );
+};
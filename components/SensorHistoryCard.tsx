@@ -0,0 +1,130 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { COLORS } from '../constants';
+import { SensorNetwork } from '../services/sensorNetwork';
+import { TimeSeriesStore } from '../services/timeSeriesStore';
+import { Card } from './Card';
+
+const MAX_CHART_POINTS = 120;
+
+const TIME_RANGES: { label: string; ms: number }[] = [
+  { label: '5 min', ms: 5 * 60_000 },
+  { label: '1 h', ms: 60 * 60_000 },
+  { label: '24 h', ms: 24 * 60 * 60_000 },
+  { label: 'All', ms: Infinity }
+];
+
+type ChartMode = 'sensor' | 'type';
+
+const formatWidth = (ms: number) => (ms >= 3_600_000 ? `${ms / 3_600_000} h` : ms >= 60_000 ? `${ms / 60_000} min` : `${ms / 1000} s`);
+
+interface SensorHistoryCardProps {
+  store: TimeSeriesStore;
+  revision: number;
+  network: SensorNetwork;
+}
+
+export const SensorHistoryCard: React.FC<SensorHistoryCardProps> = ({ store, revision, network }) => {
+  const [mode, setMode] = useState<ChartMode>('type');
+  const [range, setRange] = useState(TIME_RANGES[0].ms);
+  const [sensorId, setSensorId] = useState<number | null>(null);
+  const [type, setType] = useState<string | null>(null);
+
+  const sensors = useMemo(() => store.sensors(), [store, revision]);
+  const types = [...new Set(sensors.map(s => s.type))];
+  const sensor = sensors.find(s => s.id === sensorId) ?? sensors[0];
+  const activeType = type !== null && types.includes(type) ? type : types[0];
+
+  const sensorLabel = (id: number) => {
+    const node = network.sensors[id] && network.nodes[network.sensors[id].nodeId];
+    return node ? `${node.name} · ${network.sensors[id].type}` : `Sensor ${id}`;
+  };
+
+  const ids = mode === 'sensor' ? (sensor ? [sensor.id] : []) : sensors.filter(s => s.type === activeType).map(s => s.id);
+  const unit = mode === 'sensor' ? sensor?.unit : sensors.find(s => s.type === activeType)?.unit;
+  const { points, width } = useMemo(
+    () => store.query(ids, Date.now() - range, Infinity, MAX_CHART_POINTS),
+    [store, revision, ids.join(','), range]
+  );
+  const chartData = points.map(p => ({
+    time: p.time,
+    avg: Number(p.avg.toFixed(1)),
+    band: [Number(p.min.toFixed(1)), Number(p.max.toFixed(1))]
+  }));
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-800">Field Curves</h3>
+          <p className="text-xs text-gray-400">
+            {width === null ? 'Every reading' : `${formatWidth(width)} averages, shaded from lowest to highest`}
+          </p>
+        </div>
+        <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+          {TIME_RANGES.map(opt => (
+            <button
+              key={opt.label}
+              onClick={() => setRange(opt.ms)}
+              className={`px-2 py-1 text-[10px] font-bold rounded-lg transition-all ${range === opt.ms ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {([['type', 'By Type'], ['sensor', 'One Sensor']] as [ChartMode, string][]).map(([key, label]) => (
+          <button key={key} onClick={() => setMode(key)} className={`py-1 px-3 rounded-xl text-xs font-bold border transition-all ${mode === key ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{label}</button>
+        ))}
+        <div className="w-px bg-gray-200 mx-1"></div>
+        {mode === 'type' ? (
+          types.map(t => (
+            <button key={t} onClick={() => setType(t)} className={`py-1 px-3 rounded-xl text-xs font-bold border transition-all ${activeType === t ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{t}</button>
+          ))
+        ) : (
+          <select
+            value={sensor?.id ?? ''}
+            onChange={e => setSensorId(Number(e.target.value))}
+            className="px-2 py-1 rounded-xl border border-gray-200 text-xs font-bold text-gray-600"
+          >
+            {sensors.map(s => (
+              <option key={s.id} value={s.id}>{sensorLabel(s.id)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="h-64 w-full">
+        {chartData.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">No readings in this time range</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={time => new Date(time).toLocaleTimeString()}
+                stroke="#9ca3af"
+                fontSize={10}
+              />
+              <YAxis stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} unit={unit} domain={['auto', 'auto']} />
+              <Tooltip
+                labelFormatter={time => new Date(Number(time)).toLocaleString()}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              {width !== null && <Area dataKey="band" name="Range" stroke="none" fill={COLORS.primary} fillOpacity={0.12} />}
+              <Line type="monotone" dataKey="avg" name={width === null ? 'Value' : 'Average'} stroke={COLORS.primary} strokeWidth={2} dot={chartData.length <= 30} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,71 @@
+
+import React, { useState } from 'react';
+import { Plus, Link2, X, AlertCircle } from 'lucide-react';
+import { SessionSummary } from '../types';
+import { Card } from './Card';
+
+interface SessionsCardProps {
+  activeId: string;
+  name: string;
+  sessions: SessionSummary[];
+  saveFailed: boolean;
+  shareUrl: string;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+export const SessionsCard: React.FC<SessionsCardProps> = ({
+  activeId, name, sessions, saveFailed, shareUrl, onRename, onOpen, onDelete, onNew
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Card>
+      <h3 className="font-bold text-lg mb-4">Saved Sessions</h3>
+      <div className="space-y-4">
+        <input
+          value={name}
+          onChange={e => onRename(e.target.value)}
+          className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm font-bold text-gray-700"
+        />
+        {saveFailed && (
+          <p className="p-3 bg-red-50 rounded-xl text-red-600 text-xs flex gap-2">
+            <AlertCircle size={12} className="mt-0.5 shrink-0" /> The browser refused to save this session. Storage may be full.
+          </p>
+        )}
+
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {sessions.filter(s => s.id !== activeId).map(session => (
+            <li key={session.id} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-50 text-xs">
+              <button onClick={() => onOpen(session.id)} className="flex-1 text-left">
+                <span className="font-bold text-gray-600 block truncate">{session.name}</span>
+                <span className="text-[10px] text-gray-400">{new Date(session.savedAt).toLocaleString()}</span>
+              </button>
+              <button onClick={() => onDelete(session.id)} className="text-gray-300 hover:text-gray-500">
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          <button onClick={onNew} className="flex-1 py-2 rounded-xl text-xs font-bold border border-gray-200 text-gray-500 flex items-center justify-center gap-1">
+            <Plus size={14} /> New
+          </button>
+          <button onClick={copyLink} className="flex-1 py-2 rounded-xl text-xs font-bold border border-gray-200 text-gray-500 flex items-center justify-center gap-1">
+            <Link2 size={14} /> {copied ? 'Copied' : 'Share Link'}
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400 text-center">Links carry the setup and traffic seed, not the stored readings</p>
+      </div>
+    </Card>
+  );
+};
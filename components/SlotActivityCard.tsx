@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { SlotAnalytics } from '../services/slotAnalytics';
+import { formatAddress } from './AddressSplit';
+import { Card } from './Card';
+
+const MAX_LISTED_EVICTIONS = 12;
+const MAX_LISTED_TYPES = 3;
+// A set evicting this many times the average of all sets is flagged
+const HOT_SET_FACTOR = 2;
+
+const formatResidency = (readings: number | null) =>
+  readings === null ? '—' : `${readings < 10 ? readings.toFixed(1) : readings.toFixed(0)} readings`;
+
+interface SlotActivityCardProps {
+  analytics: SlotAnalytics;
+}
+
+export const SlotActivityCard: React.FC<SlotActivityCardProps> = ({ analytics }) => {
+  const sets = analytics.getSets();
+  const evictions = analytics.getEvictions().slice(0, MAX_LISTED_EVICTIONS);
+  const maxLookups = Math.max(1, ...sets.map(set => set.lookups));
+  const averageEvictions = sets.reduce((sum, set) => sum + set.evictions, 0) / sets.length;
+
+  return (
+    <Card>
+      <h3 className="font-bold text-lg text-gray-800">Set Activity</h3>
+      <p className="text-xs text-gray-400 mb-6">
+        Readings that share a set compete for its {analytics.waysPerSet} {analytics.waysPerSet === 1 ? 'slot' : 'slots'}. A hot set pushing out the same sensor types again and again means the address layout crowds them together.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        {sets.map((set, i) => {
+          const found = set.lookups > 0 ? (set.hits / set.lookups) * 100 : 0;
+          const hot = sets.length > 1 && set.evictions > 0 && set.evictions >= averageEvictions * HOT_SET_FACTOR;
+          const types = Object.entries(set.evictedTypes).sort((a, b) => b[1] - a[1]).slice(0, MAX_LISTED_TYPES);
+          return (
+            <div key={i}>
+              <div className="flex justify-between items-center text-xs mb-1 gap-2">
+                <span className="font-bold text-gray-500 flex items-center gap-1">
+                  Set {i}
+                  {hot && <span className="px-1.5 rounded-full bg-red-100 text-red-600 text-[9px] font-black uppercase">Hot</span>}
+                </span>
+                <span className="text-gray-400 text-right">
+                  {set.lookups} lookups · found {found.toFixed(0)}% · {set.evictions} out · stay {formatResidency(set.averageResidency)}
+                </span>
+              </div>
+              <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className={`h-full ${hot ? 'bg-red-400' : 'bg-blue-500'}`} style={{ width: `${(set.lookups / maxLookups) * 100}%` }}></div>
+              </div>
+              {types.length > 0 && (
+                <p className="text-[10px] text-gray-400 mt-1">
+                  Pushed out: {types.map(([type, count]) => `${type} ×${count}`).join(' · ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs font-bold text-gray-400 uppercase mb-2">Latest evictions</p>
+      {evictions.length > 0 ? (
+        <ul className="space-y-1 text-xs">
+          {evictions.map(eviction => (
+            <li key={`${eviction.time}-${eviction.slot}-${eviction.address}`} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50">
+              <span className="text-gray-400 w-10 shrink-0">#{eviction.time}</span>
+              <span className="font-bold text-gray-600 w-20 shrink-0">Slot {eviction.slot} · Set {eviction.set}</span>
+              <span className="font-mono text-gray-500 w-12 shrink-0">{formatAddress(eviction.address)}</span>
+              <span className="text-gray-500 truncate">
+                {eviction.sensorType ?? 'Unassigned'} · stayed {formatResidency(eviction.residency)}
+                {eviction.replacedBy !== null && ` · for ${formatAddress(eviction.replacedBy)}`}
+              </span>
+              {eviction.dirty && <span className="px-1.5 rounded-full bg-orange-100 text-orange-600 text-[9px] font-black uppercase shrink-0">Unsaved</span>}
+              {eviction.expired && <span className="px-1.5 rounded-full bg-red-100 text-red-600 text-[9px] font-black uppercase shrink-0">Stale</span>}
+              {eviction.unusedPrefetch && <span className="px-1.5 rounded-full bg-purple-100 text-purple-600 text-[9px] font-black uppercase shrink-0">Never Used</span>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400 py-4 text-center">Nothing pushed out yet</p>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,128 @@
+
+import React, { useState } from 'react';
+import { Upload, Play, Square, Download, AlertCircle } from 'lucide-react';
+import { TraceParseResult, TraceRecord } from '../types';
+import { ADDRESS_BITS, ADDRESS_SPACE } from '../constants';
+import { parseTrace, formatCsvTrace, formatDinTrace } from '../services/traceParser';
+import { Card } from './Card';
+
+const REPLAY_SPEEDS: { label: string; intervalMs: number | null }[] = [
+  { label: 'Slow', intervalMs: 1000 },
+  { label: 'Fast', intervalMs: 250 },
+  { label: 'Turbo', intervalMs: 50 },
+  { label: 'All at Once', intervalMs: null }
+];
+
+const MAX_LISTED_ERRORS = 8;
+
+const downloadText = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface TraceReplayCardProps {
+  replay: { position: number; total: number } | null;
+  sessionTrace: TraceRecord[];
+  onReplay: (records: TraceRecord[], intervalMs: number | null) => void;
+  onStop: () => void;
+}
+
+export const TraceReplayCard: React.FC<TraceReplayCardProps> = ({ replay, sessionTrace, onReplay, onStop }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<TraceParseResult | null>(null);
+  const [speed, setSpeed] = useState<number | null>(REPLAY_SPEEDS[1].intervalMs);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseTrace(file.name, await file.text()));
+  };
+
+  return (
+    <Card>
+      <h3 className="font-bold text-lg mb-4">Recorded Traffic</h3>
+      <div className="space-y-4">
+        <label className="h-20 bg-slate-50 rounded-xl border-dashed border-2 border-slate-200 flex flex-col items-center justify-center cursor-pointer text-gray-400 hover:text-gray-600">
+          <Upload size={18} />
+          <span className="text-xs font-bold mt-1 px-4 text-center truncate w-full">{fileName ?? 'Upload .csv or .din trace'}</span>
+          <input type="file" accept=".csv,.din,.txt" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        </label>
+
+        {parsed && (
+          <div className="text-xs space-y-2">
+            <p className="font-bold text-gray-500">
+              {parsed.records.length} readings ({parsed.format.toUpperCase()})
+              {parsed.errors.length > 0 && <span className="text-red-500"> · {parsed.errors.length} bad rows skipped</span>}
+            </p>
+            {parsed.folded > 0 && (
+              <p className="text-gray-400">
+                {parsed.folded} addresses were past the {ADDRESS_SPACE}-location memory and were folded into it (only their last {ADDRESS_BITS} bits are kept), so unrelated addresses may share a location
+              </p>
+            )}
+            {parsed.errors.length > 0 && (
+              <ul className="p-3 bg-red-50 rounded-xl text-red-600 space-y-1 max-h-32 overflow-y-auto">
+                {parsed.errors.slice(0, MAX_LISTED_ERRORS).map(err => (
+                  <li key={err.line} className="flex gap-2">
+                    <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                    <span><span className="font-bold">Line {err.line}:</span> {err.message}</span>
+                  </li>
+                ))}
+                {parsed.errors.length > MAX_LISTED_ERRORS && (
+                  <li className="font-bold">…and {parsed.errors.length - MAX_LISTED_ERRORS} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex bg-gray-100 p-1 rounded-xl gap-1">
+          {REPLAY_SPEEDS.map(opt => (
+            <button
+              key={opt.label}
+              onClick={() => setSpeed(opt.intervalMs)}
+              className={`flex-1 px-2 py-1 text-[10px] font-bold rounded-lg transition-all ${speed === opt.intervalMs ? 'bg-white shadow-sm text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        {replay ? (
+          <button onClick={onStop} className="w-full py-3 bg-red-500 text-white font-bold rounded-xl shadow-lg shadow-red-100 flex items-center justify-center gap-2">
+            <Square size={16} /> Stop Replay ({replay.position}/{replay.total})
+          </button>
+        ) : (
+          <button
+            disabled={!parsed || parsed.records.length === 0}
+            onClick={() => parsed && onReplay(parsed.records, speed)}
+            className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-100 flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Play size={16} /> Replay Trace
+          </button>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            disabled={sessionTrace.length === 0}
+            onClick={() => downloadText('agricache-session.csv', formatCsvTrace(sessionTrace))}
+            className="flex-1 py-2 rounded-xl text-xs font-bold border border-gray-200 text-gray-500 flex items-center justify-center gap-1 disabled:opacity-40"
+          >
+            <Download size={14} /> CSV
+          </button>
+          <button
+            disabled={sessionTrace.length === 0}
+            onClick={() => downloadText('agricache-session.din', formatDinTrace(sessionTrace))}
+            className="flex-1 py-2 rounded-xl text-xs font-bold border border-gray-200 text-gray-500 flex items-center justify-center gap-1 disabled:opacity-40"
+          >
+            <Download size={14} /> .din
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400 text-center">{sessionTrace.length} readings recorded this session</p>
+      </div>
+    </Card>
+  );
+};
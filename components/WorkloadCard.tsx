@@ -0,0 +1,74 @@
+
+import React from 'react';
+import { AddressLayout, WorkloadConfig, WorkloadModel } from '../types';
+import { ADDRESS_SPACE } from '../constants';
+import { SensorNetwork } from '../services/sensorNetwork';
+import { Card } from './Card';
+import { NumberField } from './NumberField';
+
+const MODEL_OPTIONS: { type: WorkloadModel; label: string; hint: string }[] = [
+  { type: WorkloadModel.ROUND_ROBIN, label: 'Polling Round', hint: 'Every sensor reports in turn, on a fixed schedule.' },
+  { type: WorkloadModel.ZIPF, label: 'Busy Sensors', hint: 'A few hot sensors report far more often than the rest.' },
+  { type: WorkloadModel.SWEEP, label: 'Field Walk', hint: 'A collector reads the field address by address.' },
+  { type: WorkloadModel.IRRIGATION, label: 'Irrigation Bursts', hint: 'Quiet polling until a zone starts watering and floods in.' }
+];
+
+const LAYOUT_OPTIONS: { type: AddressLayout; label: string }[] = [
+  { type: AddressLayout.RING_BUFFER, label: 'Row per Sensor' },
+  { type: AddressLayout.TYPE_ARRAYS, label: 'Row per Type' }
+];
+
+interface WorkloadCardProps {
+  config: WorkloadConfig;
+  network: SensorNetwork;
+  onChange: (config: WorkloadConfig) => void;
+}
+
+export const WorkloadCard: React.FC<WorkloadCardProps> = ({ config, network, onChange }) => {
+  const update = (patch: Partial<WorkloadConfig>) => onChange({ ...config, ...patch });
+  const active = MODEL_OPTIONS.find(opt => opt.type === config.model);
+  const depth = Math.min(...network.sensors.map(sensor => sensor.depth));
+
+  return (
+    <Card>
+      <h3 className="font-bold text-lg mb-1">Field Traffic</h3>
+      <p className="text-xs text-gray-400 mb-4">{active?.hint}</p>
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          {MODEL_OPTIONS.map(opt => (
+            <button key={opt.type} onClick={() => update({ model: opt.type })} className={`py-2 px-2 rounded-xl text-[10px] font-bold border transition-all ${config.model === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+          ))}
+        </div>
+
+        <NumberField label="Sensors" value={config.sensorCount} min={1} max={ADDRESS_SPACE} onChange={sensorCount => update({ sensorCount })} />
+        <p className="text-[10px] text-gray-400 text-center">
+          {network.nodes.length} nodes in {network.zones.length} zones across {network.fields.length} {network.fields.length === 1 ? 'field' : 'fields'}
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {LAYOUT_OPTIONS.map(opt => (
+            <button key={opt.type} onClick={() => update({ layout: opt.type })} className={`py-2 px-2 rounded-xl text-[10px] font-bold border transition-all ${config.layout === opt.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200'}`}>{opt.label}</button>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-400 text-center">
+          Each sensor keeps at least its last {depth} {depth === 1 ? 'reading' : 'readings'}
+          {config.layout === AddressLayout.RING_BUFFER ? ', side by side' : ', each next to the same reading of its neighbours'}
+        </p>
+        <NumberField label="New Readings %" value={Math.round(config.writeRatio * 100)} min={0} max={100} onChange={pct => update({ writeRatio: pct / 100 })} />
+        {config.model === WorkloadModel.ZIPF && (
+          <NumberField label="Hotness" value={config.skew} min={0} max={4} step={0.1} onChange={skew => update({ skew })} />
+        )}
+        {config.model === WorkloadModel.SWEEP && (
+          <NumberField label="Step" value={config.stride} min={1} max={ADDRESS_SPACE} onChange={stride => update({ stride })} />
+        )}
+        {config.model === WorkloadModel.IRRIGATION && (
+          <>
+            <NumberField label="Burst Chance %" value={Math.round(config.burstChance * 100)} min={0} max={100} onChange={pct => update({ burstChance: pct / 100 })} />
+            <NumberField label="Burst Length" value={config.burstLength} min={1} max={100} onChange={burstLength => update({ burstLength })} />
+          </>
+        )}
+        <NumberField label="Seed" value={config.seed} min={0} max={2 ** 32 - 1} onChange={seed => update({ seed })} />
+        <p className="text-[10px] text-gray-400 text-center pt-1">The same settings always replay the same readings</p>
+      </div>
+    </Card>
+  );
+};
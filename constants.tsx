@@ -10,6 +10,21 @@ export const COLORS = {
   card: '#FFFFFF'
 };
 
+export const SENSOR_UNITS: Record<string, string> = {
+  Moisture: '%',
+  Temperature: '°C',
+  Humidity: '%'
+};
+
 export const CACHE_SIZES = [4, 8, 16];
-export const HIT_TIME = 1; // 1ns
-export const MISS_PENALTY = 100; // 100ns
+export const BLOCK_SIZES = [1, 2, 4, 8]; // addresses per cache line
+export const ADDRESS_BITS = 8;
+export const ADDRESS_SPACE = 1 << ADDRESS_BITS;
+export const DEFAULT_SEED = 42;
+export const WRITE_RATIO = 0.7; // share of accesses that store a new reading
+export const GATEWAY_SIZES = [16, 32, 64];
+export const GATEWAY_COUNTS = [2, 3, 4]; // gateways sharing the field in the coherence view
+export const HIT_TIME = 1; // 1 ms
+export const GATEWAY_HIT_TIME = 10; // 10 ms
+export const MISS_PENALTY = 100; // 100 ms, a radio round trip to the warehouse
+export const BATTERY_JOULES = 27_000; // two AA cells
@@ -0,0 +1,185 @@
+
+import { Alert, AlertCategory, AlertCondition, AlertEvent, AlertRule, AlertSeverity, SensorData } from '../types';
+
+export type AlertListener = (event: AlertEvent) => void;
+
+const DEFAULT_WINDOW_SECONDS = 60;
+const MAX_HISTORY = 100;
+
+interface Sample {
+  time: number;
+  value: number;
+  unit: string;
+}
+
+const nodeKey = (node: string, name: string) => `${node}|${name}`;
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/** The most serious severity among the alerts in a category, or null when there are none. */
+export const worstSeverity = (alerts: Alert[], category: AlertCategory): AlertSeverity | null =>
+  alerts
+    .filter(alert => alert.category === category)
+    .reduce<AlertSeverity | null>((worst, alert) =>
+      worst === null || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[worst] ? alert.severity : worst, null);
+
+// Whether the instant tests of a condition pass on the latest samples of its sensor type
+const passes = (condition: AlertCondition, series: Sample[], now: number): boolean => {
+  const latest = series[series.length - 1];
+  if (!latest) return false;
+  if (condition.above !== undefined && !(latest.value > condition.above)) return false;
+  if (condition.below !== undefined && !(latest.value < condition.below)) return false;
+  if (condition.risesBy !== undefined || condition.fallsBy !== undefined) {
+    const since = now - (condition.withinSeconds ?? DEFAULT_WINDOW_SECONDS) * 1000;
+    const oldest = series.find(sample => sample.time >= since) ?? latest;
+    const change = latest.value - oldest.value;
+    if (condition.risesBy !== undefined && !(change >= condition.risesBy)) return false;
+    if (condition.fallsBy !== undefined && !(-change >= condition.fallsBy)) return false;
+  }
+  return true;
+};
+
+/**
+ * Watches incoming readings node by node and raises an alert when every
+ * condition of a rule holds at one node. An alert clears itself once its
+ * conditions stop holding. Acknowledging only marks it as seen; clearing it
+ * by hand silences the rule at that node until the conditions lapse.
+ */
+export class AlertEngine {
+  private rules: AlertRule[] = [];
+  private retention = new Map<string, number>(); // ms of samples kept per sensor type
+  private samples = new Map<string, Sample[]>();
+  private breachStarts = new Map<string, number>(); // when a sustained condition started holding
+  private active = new Map<string, Alert>();
+  private silenced = new Set<string>();
+  private history: Alert[] = [];
+  private nextId = 1;
+  private listeners = new Set<AlertListener>();
+
+  constructor(rules: AlertRule[]) {
+    this.setRules(rules);
+  }
+
+  /** Active alerts, newest first. */
+  getActive(): Alert[] {
+    return [...this.active.values()].reverse();
+  }
+
+  /** Cleared alerts, newest first. */
+  getHistory(): Alert[] {
+    return this.history;
+  }
+
+  /** Returns the unsubscribe function. */
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Replaces the rule set. Alerts raised by the old rules are cleared; samples already collected are kept. */
+  setRules(rules: AlertRule[], time = Date.now()) {
+    if (rules === this.rules) return;
+    [...this.active.values()].forEach(alert => this.finish(alert, time));
+    this.rules = rules;
+    this.breachStarts.clear();
+    this.silenced.clear();
+    this.retention.clear();
+    rules.forEach(rule => rule.when.forEach(condition => {
+      const seconds = Math.max(condition.withinSeconds ?? DEFAULT_WINDOW_SECONDS, condition.forSeconds ?? 0);
+      this.retention.set(condition.type, Math.max(this.retention.get(condition.type) ?? 0, seconds * 1000));
+    }));
+  }
+
+  ingest(node: string, sensor: SensorData, time: number) {
+    const retention = this.retention.get(sensor.type);
+    if (retention === undefined) return; // no rule reads this type
+
+    const key = nodeKey(node, sensor.type);
+    const series = (this.samples.get(key) ?? []).filter(sample => sample.time >= time - retention);
+    series.push({ time, value: sensor.value, unit: sensor.unit });
+    this.samples.set(key, series);
+
+    this.rules
+      .filter(rule => rule.when.some(condition => condition.type === sensor.type))
+      .forEach(rule => this.evaluate(rule, node, time));
+  }
+
+  acknowledge(id: number, time = Date.now()) {
+    const alert = [...this.active.values()].find(a => a.id === id);
+    if (!alert || alert.acknowledgedAt !== null) return;
+    const acknowledged = { ...alert, acknowledgedAt: time };
+    this.active.set(nodeKey(alert.node, alert.ruleId), acknowledged);
+    this.emit({ type: 'acknowledged', alert: acknowledged });
+  }
+
+  clear(id: number, time = Date.now()) {
+    const alert = [...this.active.values()].find(a => a.id === id);
+    if (!alert) return;
+    this.silenced.add(nodeKey(alert.node, alert.ruleId));
+    this.finish(alert, time);
+  }
+
+  /** Forgets every sample, alert and the history, keeping the rules. */
+  reset() {
+    this.samples.clear();
+    this.breachStarts.clear();
+    this.active.clear();
+    this.silenced.clear();
+    this.history = [];
+  }
+
+  private evaluate(rule: AlertRule, node: string, time: number) {
+    const key = nodeKey(node, rule.id);
+    const holds = rule.when.map((condition, i) => {
+      const breachKey = `${key}|${i}`;
+      const series = this.samples.get(nodeKey(node, condition.type)) ?? [];
+      if (!passes(condition, series, time)) {
+        this.breachStarts.delete(breachKey);
+        return false;
+      }
+      if (condition.forSeconds === undefined) return true;
+      const start = this.breachStarts.get(breachKey) ?? series[series.length - 1].time;
+      this.breachStarts.set(breachKey, start);
+      return time - start >= condition.forSeconds * 1000;
+    });
+
+    const current = this.active.get(key);
+    if (holds.every(Boolean)) {
+      if (current || this.silenced.has(key)) return;
+      const alert: Alert = {
+        id: this.nextId++,
+        ruleId: rule.id,
+        name: rule.name,
+        category: rule.category,
+        severity: rule.severity,
+        node,
+        detail: rule.when.map(condition => {
+          const series = this.samples.get(nodeKey(node, condition.type)) ?? [];
+          const latest = series[series.length - 1];
+          return `${condition.type} ${latest.value}${latest.unit}`;
+        }).join(', '),
+        raisedAt: time,
+        acknowledgedAt: null,
+        clearedAt: null
+      };
+      this.active.set(key, alert);
+      this.emit({ type: 'raised', alert });
+    } else {
+      this.silenced.delete(key);
+      if (current) this.finish(current, time);
+    }
+  }
+
+  private finish(alert: Alert, time: number) {
+    const cleared = { ...alert, clearedAt: time };
+    this.active.delete(nodeKey(alert.node, alert.ruleId));
+    this.history = [cleared, ...this.history].slice(0, MAX_HISTORY);
+    this.emit({ type: 'cleared', alert: cleared });
+  }
+
+  private emit(event: AlertEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
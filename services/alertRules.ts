@@ -0,0 +1,107 @@
+
+import { AlertCategory, AlertRule, AlertSeverity } from '../types';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'dry-heat',
+    name: 'Dry soil in the heat',
+    category: 'watering',
+    severity: 'critical',
+    when: [
+      { type: 'Moisture', below: 35, forSeconds: 120 },
+      { type: 'Temperature', above: 30 }
+    ]
+  },
+  {
+    id: 'drying-fast',
+    name: 'Soil drying fast',
+    category: 'watering',
+    severity: 'warning',
+    when: [{ type: 'Moisture', fallsBy: 25, withinSeconds: 60 }]
+  },
+  {
+    id: 'waterlogged',
+    name: 'Waterlogged soil',
+    category: 'watering',
+    severity: 'warning',
+    when: [{ type: 'Moisture', above: 85, forSeconds: 20 }]
+  },
+  {
+    id: 'heat-stress',
+    name: 'Heat stress',
+    category: 'crop',
+    severity: 'warning',
+    when: [
+      { type: 'Temperature', above: 32 },
+      { type: 'Humidity', below: 45 }
+    ]
+  },
+  {
+    id: 'frost',
+    name: 'Frost risk',
+    category: 'crop',
+    severity: 'critical',
+    when: [{ type: 'Temperature', below: 2 }]
+  }
+];
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const CATEGORIES: AlertCategory[] = ['watering', 'crop'];
+const TESTS = ['above', 'below', 'risesBy', 'fallsBy'] as const;
+const DURATIONS = ['withinSeconds', 'forSeconds'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkCondition = (value: unknown, where: string, errors: string[]) => {
+  if (!isRecord(value)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof value.type !== 'string' || value.type === '') errors.push(`${where}: "type" must name a sensor type`);
+  TESTS.forEach(key => {
+    if (value[key] !== undefined && typeof value[key] !== 'number') errors.push(`${where}: "${key}" must be a number`);
+  });
+  DURATIONS.forEach(key => {
+    const n = value[key];
+    if (n !== undefined && (typeof n !== 'number' || n <= 0)) errors.push(`${where}: "${key}" must be a positive number`);
+  });
+  if (TESTS.every(key => value[key] === undefined)) errors.push(`${where}: needs at least one of ${TESTS.join(', ')}`);
+};
+
+/**
+ * Reads a JSON array of alert rules. `rules` is only filled in when the whole
+ * document is valid, so a typo never silently drops one rule.
+ */
+export const parseAlertRules = (text: string): { rules: AlertRule[]; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    return { rules: [], errors: [(err as Error).message] };
+  }
+  if (!Array.isArray(json)) return { rules: [], errors: ['expected an array of rules'] };
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  json.forEach((raw, i) => {
+    const where = `rule ${i + 1}`;
+    if (!isRecord(raw)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof raw.id !== 'string' || raw.id === '') errors.push(`${where}: "id" must be a non-empty string`);
+    else if (ids.has(raw.id)) errors.push(`${where}: id "${raw.id}" is used twice`);
+    else ids.add(raw.id);
+    if (typeof raw.name !== 'string' || raw.name === '') errors.push(`${where}: "name" must be a non-empty string`);
+    if (!CATEGORIES.includes(raw.category as AlertCategory)) errors.push(`${where}: "category" must be ${CATEGORIES.join(' or ')}`);
+    if (!SEVERITIES.includes(raw.severity as AlertSeverity)) errors.push(`${where}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+    if (!Array.isArray(raw.when) || raw.when.length === 0) {
+      errors.push(`${where}: "when" must list at least one condition`);
+    } else {
+      raw.when.forEach((condition, j) => checkCondition(condition, `${where}, condition ${j + 1}`, errors));
+    }
+  });
+
+  return { rules: errors.length > 0 ? [] : (json as AlertRule[]), errors };
+};
@@ -0,0 +1,118 @@
+
+import {
+  AccessTiming, CacheConfig, MappingType, MissType, ReplacementPolicy, TraceAccess, TraceStats, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+import { MemoryHierarchy } from './memoryHierarchy';
+
+export interface SweepGrid {
+  sizes: number[];
+  mappings: MappingType[];
+  policies: ReplacementPolicy[];
+  blockSizes: number[];
+  writeHitPolicy: WriteHitPolicy;
+  writeMissPolicy: WriteMissPolicy;
+  seed: number;
+  timing: AccessTiming;
+}
+
+export interface SweepResult {
+  size: number;
+  mapping: MappingType;
+  policy: ReplacementPolicy;
+  blockSize: number;
+  accesses: number;
+  hits: number;
+  misses: number;
+  compulsory: number;
+  capacity: number;
+  conflict: number;
+  writeBacks: number;
+  hitRatio: number;
+  amat: number;
+}
+
+/**
+ * Runs a whole trace through a fresh cache and returns the aggregate counters.
+ * AMAT comes from `timing`, as the dashboard computes it for the same cache.
+ */
+export const simulateTrace = (config: CacheConfig, trace: TraceAccess[], timing: AccessTiming): TraceStats => {
+  const engine = new CacheSimulationEngine(
+    config,
+    config.policy === ReplacementPolicy.OPT ? trace.map(t => t.address) : []
+  );
+  let cache = CacheSimulationEngine.createEmptyCache(config.size);
+  let hits = 0;
+  let writeBacks = 0;
+  const missTypes = CacheSimulationEngine.emptyMissBreakdown();
+
+  for (const entry of trace) {
+    const result = engine.access(entry.address, entry.data ?? null, cache, entry.kind);
+    cache = result.cache;
+    if (result.hit) hits++;
+    if (result.writeBack) writeBacks++;
+    if (result.missType) missTypes[result.missType]++;
+  }
+
+  const accesses = trace.length;
+  return {
+    accesses,
+    hits,
+    misses: accesses - hits,
+    missTypes,
+    writeBacks,
+    hitRatio: accesses > 0 ? (hits / accesses) * 100 : 0,
+    amat: MemoryHierarchy.calculateSingleLevelAmat(timing, { accesses, hits }, writeBacks)
+  };
+};
+
+// Fixed precision keeps reports byte-identical across runs and platforms
+const round = (value: number) => Number(value.toFixed(4));
+
+/** Runs the same trace through every combination in the grid, in grid order. */
+export const runSweep = (grid: SweepGrid, trace: TraceAccess[]): SweepResult[] => {
+  const results: SweepResult[] = [];
+
+  for (const size of grid.sizes) {
+    for (const mapping of grid.mappings) {
+      for (const policy of grid.policies) {
+        for (const blockSize of grid.blockSizes) {
+          const stats = simulateTrace({
+            size,
+            mapping,
+            policy,
+            blockSize,
+            writeHitPolicy: grid.writeHitPolicy,
+            writeMissPolicy: grid.writeMissPolicy,
+            seed: grid.seed
+          }, trace, grid.timing);
+
+          results.push({
+            size,
+            mapping,
+            policy,
+            blockSize,
+            accesses: stats.accesses,
+            hits: stats.hits,
+            misses: stats.misses,
+            compulsory: stats.missTypes[MissType.COMPULSORY],
+            capacity: stats.missTypes[MissType.CAPACITY],
+            conflict: stats.missTypes[MissType.CONFLICT],
+            writeBacks: stats.writeBacks,
+            hitRatio: round(stats.hitRatio),
+            amat: round(stats.amat)
+          });
+        }
+      }
+    }
+  }
+
+  return results;
+};
+
+const CSV_COLUMNS: (keyof SweepResult)[] = [
+  'size', 'mapping', 'policy', 'blockSize', 'accesses', 'hits', 'misses', 'compulsory', 'capacity', 'conflict', 'writeBacks', 'hitRatio', 'amat'
+];
+
+export const formatSweepCsv = (results: SweepResult[]): string =>
+  [CSV_COLUMNS.join(','), ...results.map(r => CSV_COLUMNS.map(c => r[c]).join(','))].join('\n') + '\n';
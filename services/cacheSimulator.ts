@@ -0,0 +1,234 @@
+
+import {
+  AccessKind, CacheBlock, HierarchyConfig, HierarchyResult, PrefetchStats, SensorData, SimulationEvent, SimulationStats,
+  SimulatorState
+} from '../types';
+import { DEFAULT_SEED } from '../constants';
+import { CacheSimulationEngine } from './simulationEngine';
+import { MemoryHierarchy } from './memoryHierarchy';
+import { countEnergy, emptyEnergyCounts } from './energyModel';
+import { addLatency, emptyLatencyStats, sampleAccessLatency } from './latencyModel';
+import { createRandom } from './random';
+
+export type SimulationListener = (event: SimulationEvent) => void;
+
+const emptyStats = (config: HierarchyConfig): SimulationStats => ({
+  accesses: 0,
+  hits: 0,
+  hitRatio: 0,
+  amat: MemoryHierarchy.calculateAmat(config, [], 0),
+  levelStats: config.levels.map(() => ({ accesses: 0, hits: 0 })),
+  memoryWriteBacks: 0,
+  missTypes: CacheSimulationEngine.emptyMissBreakdown(),
+  energy: emptyEnergyCounts(),
+  prefetch: { issued: 0, useful: 0, unused: 0, pollution: 0 },
+  freshness: { staleHitsAvoided: 0, refreshes: 0 },
+  latency: emptyLatencyStats()
+});
+
+const countPrefetches = (stats: PrefetchStats, result: HierarchyResult): PrefetchStats => ({
+  issued: stats.issued + result.events.filter(e => e.type === 'prefetch').length,
+  useful: stats.useful + (result.first.prefetchHit ? 1 : 0),
+  unused: stats.unused + result.events.filter(e => e.type === 'evict' && e.level === 0 && e.unusedPrefetch).length,
+  pollution: stats.pollution + (result.first.pollutionMiss ? 1 : 0)
+});
+
+// Levels whose slots mean the same thing under both configs can keep their contents
+const sameGeometry = (a: HierarchyConfig, b: HierarchyConfig): boolean =>
+  a.levels.length === b.levels.length &&
+  a.levels.every((level, i) =>
+    level.size === b.levels[i].size &&
+    level.blockSize === b.levels[i].blockSize &&
+    CacheSimulationEngine.getWays(level.mapping, level.size) === CacheSimulationEngine.getWays(b.levels[i].mapping, b.levels[i].size));
+
+/**
+ * The live simulation: owns the cache contents, the logical clock and the
+ * running statistics across accesses, and tells subscribers about every hit,
+ * miss, fill, eviction and write-back as it happens.
+ */
+export class CacheSimulator {
+  private config: HierarchyConfig;
+  private hierarchy: MemoryHierarchy;
+  private caches: CacheBlock[][];
+  private stats: SimulationStats;
+  private clock = 0;
+  private random: () => number;
+  private latencyDraws = 0;
+  private listeners = new Set<SimulationListener>();
+
+  constructor(config: HierarchyConfig) {
+    this.config = config;
+    this.hierarchy = new MemoryHierarchy(config);
+    this.caches = MemoryHierarchy.createEmptyCaches(config);
+    this.stats = emptyStats(config);
+    this.random = this.latencyStream(0);
+  }
+
+  /** Number of accesses simulated so far. */
+  get time(): number {
+    return this.clock;
+  }
+
+  get state(): CacheBlock[][] {
+    return this.caches;
+  }
+
+  getConfig(): HierarchyConfig {
+    return this.config;
+  }
+
+  getStats(): SimulationStats {
+    return this.stats;
+  }
+
+  getEngine(level: number): CacheSimulationEngine {
+    return this.hierarchy.getEngine(level);
+  }
+
+  /** Returns the unsubscribe function. */
+  subscribe(listener: SimulationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** `now` is the wall-clock ms the reading arrived; readings only age when it is given. */
+  access(address: number, data: SensorData | null, kind: AccessKind = AccessKind.READ, now = 0): HierarchyResult {
+    const result = this.hierarchy.access(address, data, this.caches, kind, now);
+    this.caches = result.caches;
+    this.clock++;
+    const latency = sampleAccessLatency(this.config, result.servedBy, result.memoryWriteBacks, this.random);
+    this.record(result, latency);
+
+    const time = this.clock;
+    result.events.forEach(event => this.emit({ ...event, time }));
+    this.emit({
+      type: 'access',
+      time,
+      data,
+      record: {
+        address,
+        hit: result.first.hit,
+        kind,
+        servedBy: result.servedBy,
+        writeBacks: result.memoryWriteBacks,
+        missType: result.first.missType,
+        breakdown: result.first.breakdown,
+        timestamp: data?.timestamp ?? `#${time}`,
+        latency
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Switches to a new configuration. Contents, clock and statistics survive
+   * when every level keeps its shape (e.g. only the policy changed);
+   * otherwise the simulation starts over from empty caches.
+   */
+  reconfigure(config: HierarchyConfig) {
+    if (config === this.config) return;
+    const keep = sameGeometry(this.config, config);
+    const previous = this.hierarchy;
+    const reseed = config.latencySeed !== this.config.latencySeed;
+    this.config = config;
+    this.hierarchy = new MemoryHierarchy(config);
+
+    if (keep) {
+      // Same shapes, so the new engines can take over what the old ones learned
+      this.caches.forEach((cache, i) => this.hierarchy.getEngine(i).resumeFrom(cache, previous.getEngine(i)));
+      this.stats = { ...this.stats, amat: MemoryHierarchy.calculateAmat(config, this.stats.levelStats, this.stats.memoryWriteBacks) };
+      if (reseed) this.random = this.latencyStream(0);
+    } else {
+      this.clear();
+    }
+    this.emit({ type: 'reconfigure', time: this.clock, config, cleared: !keep });
+  }
+
+  exportState(): SimulatorState {
+    return { caches: this.caches, stats: this.stats, clock: this.clock, latencyDraws: this.latencyDraws };
+  }
+
+  /**
+   * Picks up a saved simulation (or starts empty when `state` is null).
+   * Contents, clock, statistics and the response-time stream come back
+   * exactly; replacement policy bookkeeping such as PLRU bits or LFU counts
+   * starts over.
+   */
+  load(config: HierarchyConfig, state: SimulatorState | null) {
+    this.config = config;
+    this.hierarchy = new MemoryHierarchy(config);
+    if (state) {
+      this.caches = state.caches;
+      // Statistics saved before a counter existed start that counter from zero
+      this.stats = { ...emptyStats(config), ...state.stats };
+      this.clock = state.clock;
+      this.random = this.latencyStream(state.latencyDraws ?? 0);
+      this.caches.forEach((cache, i) => this.hierarchy.getEngine(i).resumeFrom(cache));
+    } else {
+      this.clear();
+    }
+    this.emit({ type: 'reconfigure', time: this.clock, config, cleared: state === null });
+  }
+
+  /** Empties every level and zeroes the statistics under the current configuration. */
+  reset() {
+    this.hierarchy = new MemoryHierarchy(this.config);
+    this.clear();
+    this.emit({ type: 'reconfigure', time: this.clock, config: this.config, cleared: true });
+  }
+
+  private clear() {
+    this.caches = MemoryHierarchy.createEmptyCaches(this.config);
+    this.stats = emptyStats(this.config);
+    this.clock = 0;
+    this.random = this.latencyStream(0);
+  }
+
+  // Response times draw from their own stream, counted so a saved session resumes it
+  private latencyStream(draws: number): () => number {
+    const next = createRandom(this.config.latencySeed ?? DEFAULT_SEED, draws);
+    this.latencyDraws = draws;
+    return () => {
+      this.latencyDraws++;
+      return next();
+    };
+  }
+
+  private record(result: HierarchyResult, ms: number) {
+    const { stats } = this;
+    const levelStats = stats.levelStats.map((level, i) => ({
+      accesses: level.accesses + (result.servedBy >= i ? 1 : 0),
+      hits: level.hits + (result.servedBy === i ? 1 : 0)
+    }));
+    const accesses = stats.accesses + 1;
+    const hits = stats.hits + (result.first.hit ? 1 : 0);
+    const memoryWriteBacks = stats.memoryWriteBacks + result.memoryWriteBacks;
+    const missTypes = { ...stats.missTypes };
+    if (result.first.missType) missTypes[result.first.missType]++;
+    const latency = { ...stats.latency, buckets: [...stats.latency.buckets] };
+    addLatency(latency, ms);
+
+    this.stats = {
+      accesses,
+      hits,
+      hitRatio: (hits / accesses) * 100,
+      amat: MemoryHierarchy.calculateAmat(this.config, levelStats, memoryWriteBacks),
+      levelStats,
+      memoryWriteBacks,
+      missTypes,
+      energy: countEnergy(stats.energy, result, this.config.levels.length),
+      prefetch: countPrefetches(stats.prefetch, result),
+      freshness: {
+        staleHitsAvoided: stats.freshness.staleHitsAvoided + (result.first.staleHitAvoided ? 1 : 0),
+        refreshes: stats.freshness.refreshes + (result.first.refreshed ? 1 : 0)
+      },
+      latency
+    };
+  }
+
+  private emit(event: SimulationEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
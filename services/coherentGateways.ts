@@ -0,0 +1,181 @@
+
+import {
+  AccessKind, BusTransaction, CacheBlock, CacheConfig, CoherenceConfig, CoherenceProtocol, CoherenceState,
+  CoherenceStats, CoherenceTransition, PrefetcherType, SensorData, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+
+const TRANSITION_LOG_LIMIT = 500;
+
+export interface CoherenceResult {
+  gateway: number;
+  hit: boolean;
+  bus: BusTransaction[];            // requests and flushes this access put on the bus, in order
+  transitions: CoherenceTransition[];
+}
+
+const emptyStats = (gateways: number): CoherenceStats => ({
+  accesses: 0,
+  hits: 0,
+  gatewayStats: Array.from({ length: gateways }, () => ({ accesses: 0, hits: 0 })),
+  bus: { BusRd: 0, BusRdX: 0, BusUpgr: 0, Flush: 0 },
+  invalidations: 0,
+  coherenceMisses: 0
+});
+
+/**
+ * Several edge gateways caching the same address space, kept coherent by
+ * snooping a shared bus with MSI or MESI. Every gateway is a write-back,
+ * write-allocate cache of the shelf's geometry, since a snooping protocol
+ * relies on the owner holding the only up-to-date copy.
+ *
+ * Sensors report through their zone's gateway (zone id modulo the gateway
+ * count), so that is where writes arrive. Reads are dashboard queries and are
+ * answered by the gateways in turn, which is what makes lines shared.
+ *
+ * An invalidated copy is dropped from its slot, so empty slots are Invalid.
+ */
+export class CoherentGateways {
+  readonly protocol: CoherenceProtocol;
+  private engines: CacheSimulationEngine[];
+  private caches: CacheBlock[][];
+  private states: CoherenceState[][];
+  private lostLines: Set<number>[]; // per gateway, lines taken away by another gateway's write
+  private blockSize: number;
+  private stats: CoherenceStats;
+  private transitions: CoherenceTransition[] = [];
+  private nextReader = 0;
+  private clock = 0;
+
+  constructor(config: CoherenceConfig, cache: CacheConfig) {
+    this.protocol = config.protocol;
+    this.blockSize = cache.blockSize;
+    const gatewayConfig: CacheConfig = {
+      ...cache,
+      writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+      writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+      prefetcher: PrefetcherType.NONE
+    };
+    this.engines = Array.from({ length: config.gateways }, (_, i) => new CacheSimulationEngine({ ...gatewayConfig, seed: cache.seed + i }));
+    this.caches = this.engines.map(() => CacheSimulationEngine.createEmptyCache(cache.size));
+    this.states = this.engines.map(() => new Array(cache.size).fill(CoherenceState.INVALID));
+    this.lostLines = this.engines.map(() => new Set<number>());
+    this.stats = emptyStats(config.gateways);
+  }
+
+  get gatewayCount(): number {
+    return this.engines.length;
+  }
+
+  /** Routes a reading to a gateway (see the class comment) and runs the protocol for it. */
+  access(address: number, data: SensorData | null, kind: AccessKind, zoneId: number): CoherenceResult {
+    const gateway = kind === AccessKind.WRITE
+      ? zoneId % this.engines.length
+      : this.nextReader++ % this.engines.length;
+    return this.accessAt(gateway, address, data, kind);
+  }
+
+  /** Runs one access at a given gateway, snooping the others first when it needs the bus. */
+  accessAt(gateway: number, address: number, data: SensorData | null, kind: AccessKind): CoherenceResult {
+    this.clock++;
+    const engine = this.engines[gateway];
+    const line = Math.floor(address / this.blockSize);
+    const lineStart = line * this.blockSize;
+    const isWrite = kind === AccessKind.WRITE;
+    const bus: BusTransaction[] = [];
+    const transitions: CoherenceTransition[] = [];
+    const record = (g: number, slot: number, from: CoherenceState, to: CoherenceState, cause: CoherenceTransition['cause'], request: BusTransaction | null) => {
+      if (from === to) return;
+      this.states[g][slot] = to;
+      transitions.push({ time: this.clock, gateway: g, slot, address: lineStart, from, to, cause, bus: request });
+    };
+
+    const slot = engine.probe(address, this.caches[gateway]);
+    const state = slot === null ? CoherenceState.INVALID : this.states[gateway][slot];
+
+    // Work out what has to go on the bus before the local cache changes
+    let request: BusTransaction | null = null;
+    if (state === CoherenceState.INVALID) request = isWrite ? 'BusRdX' : 'BusRd';
+    else if (isWrite && state === CoherenceState.SHARED) request = 'BusUpgr';
+
+    let sharedElsewhere = false;
+    if (request) {
+      bus.push(request);
+      this.engines.forEach((other, g) => {
+        if (g === gateway) return;
+        const otherSlot = other.probe(address, this.caches[g]);
+        if (otherSlot === null) return;
+        const otherState = this.states[g][otherSlot];
+        // The owner of a modified copy writes it back before anyone else reads or takes the line
+        if (otherState === CoherenceState.MODIFIED) bus.push('Flush');
+        if (request === 'BusRd') {
+          sharedElsewhere = true;
+          this.caches[g] = [...this.caches[g]];
+          this.caches[g][otherSlot] = { ...this.caches[g][otherSlot], isDirty: false };
+          record(g, otherSlot, otherState, CoherenceState.SHARED, 'snoop', request);
+        } else {
+          this.caches[g] = other.invalidate(address, this.caches[g]).cache;
+          this.lostLines[g].add(line);
+          this.stats.invalidations++;
+          record(g, otherSlot, otherState, CoherenceState.INVALID, 'snoop', request);
+        }
+      });
+    }
+
+    const result = engine.access(address, data, this.caches[gateway], kind);
+    this.caches[gateway] = result.cache;
+
+    if (result.hit) {
+      if (isWrite) record(gateway, slot!, state, CoherenceState.MODIFIED, 'write', request);
+    } else {
+      if (this.lostLines[gateway].delete(line)) this.stats.coherenceMisses++;
+      const filled = result.replacedId!;
+      if (result.evictedAddress !== null) {
+        const victimState = this.states[gateway][filled];
+        if (victimState === CoherenceState.MODIFIED) bus.push('Flush');
+        transitions.push({
+          time: this.clock, gateway, slot: filled, address: result.evictedAddress,
+          from: victimState, to: CoherenceState.INVALID, cause: 'evict', bus: null
+        });
+      }
+      // Without an Exclusive state, a lone reader still only gets a shared copy
+      const readState = sharedElsewhere || this.protocol === CoherenceProtocol.MSI ? CoherenceState.SHARED : CoherenceState.EXCLUSIVE;
+      this.states[gateway][filled] = CoherenceState.INVALID;
+      record(gateway, filled, CoherenceState.INVALID, isWrite ? CoherenceState.MODIFIED : readState, isWrite ? 'write' : 'read', request);
+    }
+
+    bus.forEach(transaction => this.stats.bus[transaction]++);
+    this.stats.accesses++;
+    this.stats.gatewayStats[gateway].accesses++;
+    if (result.hit) {
+      this.stats.hits++;
+      this.stats.gatewayStats[gateway].hits++;
+    }
+    this.transitions.push(...transitions);
+    if (this.transitions.length > TRANSITION_LOG_LIMIT) this.transitions.splice(0, this.transitions.length - TRANSITION_LOG_LIMIT);
+
+    return { gateway, hit: result.hit, bus, transitions };
+  }
+
+  getCaches(): CacheBlock[][] {
+    return this.caches;
+  }
+
+  getStates(): CoherenceState[][] {
+    return this.states;
+  }
+
+  getStats(): CoherenceStats {
+    return this.stats;
+  }
+
+  /** The most recent transitions, oldest first. */
+  getTransitions(): CoherenceTransition[] {
+    return this.transitions;
+  }
+
+  /** First and last address held by a gateway's slot, or null when the slot is empty. */
+  getAddressRange(gateway: number, block: CacheBlock): { start: number; end: number } | null {
+    return this.engines[gateway].getAddressRange(block);
+  }
+}
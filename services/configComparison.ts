@@ -0,0 +1,67 @@
+import { AccessKind, AccessTiming, CacheBlock, CacheConfig, ComparisonStats, SensorData } from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+import { MemoryHierarchy } from './memoryHierarchy';
+import { DEFAULT_LATENCY, shelfTiming } from './latencyModel';
+
+const emptyStats = (timing: AccessTiming): ComparisonStats => ({
+  accesses: 0,
+  hits: 0,
+  evictions: 0,
+  writeBacks: 0,
+  hitRatio: 0,
+  amat: MemoryHierarchy.calculateSingleLevelAmat(timing, { accesses: 0, hits: 0 }, 0)
+});
+
+/**
+ * Runs several cache configurations in lockstep so every one of them sees
+ * exactly the same access stream. AMAT uses the dashboard's shelf and
+ * warehouse times, so a setup matching the live shelf reports the same AMAT.
+ */
+export class ConfigComparison {
+  private engines: CacheSimulationEngine[];
+  private caches: CacheBlock[][];
+  private stats: ComparisonStats[];
+  private timing: AccessTiming;
+
+  constructor(configs: CacheConfig[], timing: AccessTiming = shelfTiming(DEFAULT_LATENCY)) {
+    this.timing = timing;
+    this.engines = configs.map(config => new CacheSimulationEngine(config));
+    this.caches = configs.map(config => CacheSimulationEngine.createEmptyCache(config.size));
+    this.stats = configs.map(() => emptyStats(timing));
+  }
+
+  /** Counts are kept; every setup's AMAT is recomputed with the new times. */
+  setTiming(timing: AccessTiming) {
+    this.timing = timing;
+    this.stats = this.stats.map(stats => ({ ...stats, amat: this.amatOf(stats.accesses, stats.hits, stats.writeBacks) }));
+  }
+
+  access(address: number, data: SensorData | null, kind: AccessKind): ComparisonStats[] {
+    this.stats = this.engines.map((engine, i) => {
+      const result = engine.access(address, data, this.caches[i], kind);
+      this.caches[i] = result.cache;
+
+      const prev = this.stats[i];
+      const accesses = prev.accesses + 1;
+      const hits = prev.hits + (result.hit ? 1 : 0);
+      const writeBacks = prev.writeBacks + (result.writeBack ? 1 : 0);
+      return {
+        accesses,
+        hits,
+        evictions: prev.evictions + (result.evictedAddress !== null ? 1 : 0),
+        writeBacks,
+        hitRatio: (hits / accesses) * 100,
+        amat: this.amatOf(accesses, hits, writeBacks)
+      };
+    });
+    return this.stats;
+  }
+
+  getStats(): ComparisonStats[] {
+    return this.stats;
+  }
+
+  private amatOf(accesses: number, hits: number, writeBacks: number): number {
+    return MemoryHierarchy.calculateSingleLevelAmat(this.timing, { accesses, hits }, writeBacks);
+  }
+}
@@ -0,0 +1,444 @@
+
+import {
+  AccessKind, CacheBlock, CacheLevelConfig, EnergyCounts, FreshnessConfig, FreshnessMode, HierarchyConfig, InclusionPolicy,
+  LevelStats, MissType, PrefetcherType, SensorData, SimulationStats, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+import { DEFAULT_SEED } from '../constants';
+import { REFRESH_AHEAD_AT } from './simulationEngine';
+import { CacheSimulationEngine } from './simulationEngine';
+import { MemoryHierarchy } from './memoryHierarchy';
+import { MissClassifier } from './missClassifier';
+import { Prefetcher, createPrefetcher } from './prefetchers';
+import { ReplacementStrategy, createReplacementStrategy } from './replacementPolicies';
+import { emptyEnergyCounts } from './energyModel';
+import { addLatency, emptyLatencyStats, sampleAccessLatency } from './latencyModel';
+import { createRandom } from './random';
+
+const EMPTY = -1;
+
+/** Where a fill put its line and what it pushed out; `evictedAddress` is EMPTY when the slot was free. */
+interface FastFill {
+  slot: number;
+  evictedAddress: number;
+  evictedDirty: boolean;
+  evictedPrefetched: boolean;
+}
+
+/**
+ * One cache level as flat typed arrays, slot by slot. Mirrors
+ * CacheSimulationEngine step for step (same logical clock, same replacement
+ * strategy objects) but keeps no sensor data and allocates nothing on a hit.
+ */
+class FastLevel {
+  readonly blockSize: number;
+  readonly isWriteBack: boolean;
+  private allocateOnWrite: boolean;
+  private ways: number;
+  private numSets: number;
+  private tags: Int32Array;
+  private lastUsed: Float64Array;
+  private insertedAt: Float64Array;
+  private dirty: Uint8Array;
+  private prefetched: Uint8Array;
+  private storedAt: Float64Array;
+  private strategy: ReplacementStrategy;
+  private classifier: MissClassifier;
+  private prefetcher: Prefetcher | null;
+  private pollutedLines = new Set<number>();
+  private freshness: FreshnessConfig | null;
+  private now = 0;
+  private counter = 0;
+
+  // Outcome of the latest access(), read by the hierarchy right after the call
+  hit = false;
+  memoryWrite = false;
+  prefetchHit = false;
+  pollutionMiss = false;
+  staleHitAvoided = false;
+  refreshed = false;
+  missType: MissType | null = null;
+  fill: FastFill | null = null;
+
+  constructor(config: CacheLevelConfig) {
+    this.blockSize = config.blockSize;
+    this.isWriteBack = config.writeHitPolicy === WriteHitPolicy.WRITE_BACK;
+    this.allocateOnWrite = config.writeMissPolicy === WriteMissPolicy.WRITE_ALLOCATE;
+    this.ways = CacheSimulationEngine.getWays(config.mapping, config.size);
+    this.numSets = config.size / this.ways;
+    this.tags = new Int32Array(config.size).fill(EMPTY);
+    this.lastUsed = new Float64Array(config.size);
+    this.insertedAt = new Float64Array(config.size);
+    this.dirty = new Uint8Array(config.size);
+    this.prefetched = new Uint8Array(config.size);
+    this.storedAt = new Float64Array(config.size);
+    this.strategy = createReplacementStrategy(
+      config.policy,
+      { numSets: this.numSets, ways: this.ways },
+      { blockSize: config.blockSize, seed: config.seed, futureTrace: [] }
+    );
+    this.classifier = new MissClassifier(config.size);
+    this.prefetcher = createPrefetcher(config.prefetcher ?? PrefetcherType.NONE, config.blockSize);
+    this.freshness = config.freshness && config.freshness.mode !== FreshnessMode.OFF ? config.freshness : null;
+  }
+
+  /** `sensorType` picks the time-to-live, as the demanded reading does in CacheSimulationEngine. */
+  access(address: number, isWrite: boolean, now: number, sensorType: string | null) {
+    this.counter++;
+    this.now = now;
+    const lineAddress = Math.floor(address / this.blockSize);
+    const setIndex = lineAddress % this.numSets;
+    this.strategy.onAccess(lineAddress);
+
+    const slot = this.find(lineAddress);
+    const lifeUsed = slot !== EMPTY ? this.lifeUsed(slot, sensorType) : 0;
+    this.staleHitAvoided = !isWrite && lifeUsed >= 1;
+    this.hit = slot !== EMPTY && !this.staleHitAvoided;
+    this.missType = this.classifier.classify(lineAddress, slot !== EMPTY);
+    this.pollutionMiss = slot === EMPTY && this.pollutedLines.has(lineAddress);
+    this.pollutedLines.delete(lineAddress);
+    this.prefetchHit = false;
+    this.refreshed = false;
+    this.fill = null;
+    this.memoryWrite = isWrite && !this.isWriteBack;
+
+    if (this.staleHitAvoided) {
+      this.strategy.onFill(setIndex, slot - setIndex * this.ways);
+      this.fill = { slot, evictedAddress: lineAddress * this.blockSize, evictedDirty: this.dirty[slot] === 1, evictedPrefetched: this.prefetched[slot] === 1 };
+      this.lastUsed[slot] = this.counter;
+      this.insertedAt[slot] = this.counter;
+      this.dirty[slot] = 0;
+      this.prefetched[slot] = 0;
+      this.storedAt[slot] = now;
+      this.memoryWrite = false;
+      return;
+    }
+
+    if (this.hit) {
+      this.strategy.onHit(setIndex, slot - setIndex * this.ways);
+      this.prefetchHit = this.prefetched[slot] === 1;
+      this.refreshed = !isWrite && this.dirty[slot] === 0 && this.freshness?.mode === FreshnessMode.REFRESH_AHEAD && lifeUsed >= REFRESH_AHEAD_AT;
+      this.prefetched[slot] = 0;
+      this.lastUsed[slot] = this.counter;
+      if (isWrite || this.refreshed) this.storedAt[slot] = now;
+      if (isWrite && this.isWriteBack) this.dirty[slot] = 1;
+      return;
+    }
+
+    if (isWrite && !this.allocateOnWrite) {
+      this.memoryWrite = true;
+      return;
+    }
+    this.fill = this.place(lineAddress, isWrite && this.isWriteBack, false);
+  }
+
+  probe(address: number): number {
+    return this.find(Math.floor(address / this.blockSize));
+  }
+
+  /** Drops the line holding `address`; returns the slot it held (EMPTY when absent) and whether it was dirty or prefetched. */
+  invalidate(address: number): { slot: number; dirty: boolean; prefetched: boolean } {
+    const slot = this.probe(address);
+    if (slot === EMPTY) return { slot, dirty: false, prefetched: false };
+    const removed = { slot, dirty: this.dirty[slot] === 1, prefetched: this.prefetched[slot] === 1 };
+    this.tags[slot] = EMPTY;
+    this.lastUsed[slot] = 0;
+    this.insertedAt[slot] = 0;
+    this.dirty[slot] = 0;
+    this.prefetched[slot] = 0;
+    this.storedAt[slot] = 0;
+    return removed;
+  }
+
+  insert(address: number, isDirty: boolean): FastFill {
+    this.counter++;
+    return this.place(Math.floor(address / this.blockSize), isDirty, false);
+  }
+
+  prefetch(address: number): FastFill {
+    this.counter++;
+    const fill = this.place(Math.floor(address / this.blockSize), false, true);
+    if (fill.evictedAddress !== EMPTY && !fill.evictedPrefetched) {
+      this.pollutedLines.add(Math.floor(fill.evictedAddress / this.blockSize));
+    }
+    return fill;
+  }
+
+  prefetchTargets(address: number, sensorId: number | null): number[] {
+    if (!this.prefetcher) return [];
+    return this.prefetcher.onAccess({ address, sensorId, hit: this.hit, prefetchHit: this.prefetchHit });
+  }
+
+  /** Returns whether the write still has to travel to the next level. */
+  absorbWrite(address: number): boolean {
+    const slot = this.probe(address);
+    if (slot === EMPTY) return true;
+    if (this.isWriteBack) this.dirty[slot] = 1;
+    return !this.isWriteBack;
+  }
+
+  markDirty(address: number) {
+    const slot = this.probe(address);
+    if (slot !== EMPTY) this.dirty[slot] = 1;
+  }
+
+  private lifeUsed(slot: number, sensorType: string | null): number {
+    const ttl = this.freshness && sensorType ? this.freshness.ttl[sensorType] ?? 0 : 0;
+    return ttl > 0 ? (this.now - this.storedAt[slot]) / (ttl * 1000) : 0;
+  }
+
+  private find(lineAddress: number): number {
+    const base = (lineAddress % this.numSets) * this.ways;
+    const tag = Math.floor(lineAddress / this.numSets);
+    for (let way = 0; way < this.ways; way++) {
+      if (this.tags[base + way] === tag) return base + way;
+    }
+    return EMPTY;
+  }
+
+  private place(lineAddress: number, isDirty: boolean, prefetched: boolean): FastFill {
+    const setIndex = lineAddress % this.numSets;
+    const base = setIndex * this.ways;
+    let slot = EMPTY;
+    for (let way = 0; way < this.ways && slot === EMPTY; way++) {
+      if (this.tags[base + way] === EMPTY) slot = base + way;
+    }
+    // Only a full set needs the strategy, and only then are block objects built for it
+    if (slot === EMPTY) slot = base + this.strategy.chooseVictim(setIndex, this.setBlocks(base));
+    this.strategy.onFill(setIndex, slot - base);
+
+    const victimTag = this.tags[slot];
+    const fill: FastFill = {
+      slot,
+      evictedAddress: victimTag === EMPTY ? EMPTY : (victimTag * this.numSets + setIndex) * this.blockSize,
+      evictedDirty: victimTag !== EMPTY && this.dirty[slot] === 1,
+      evictedPrefetched: victimTag !== EMPTY && this.prefetched[slot] === 1
+    };
+    this.tags[slot] = Math.floor(lineAddress / this.numSets);
+    this.lastUsed[slot] = this.counter;
+    this.insertedAt[slot] = this.counter;
+    this.dirty[slot] = isDirty ? 1 : 0;
+    this.prefetched[slot] = prefetched ? 1 : 0;
+    this.storedAt[slot] = this.now;
+    return fill;
+  }
+
+  private setBlocks(base: number): CacheBlock[] {
+    return Array.from({ length: this.ways }, (_, way) => ({
+      id: base + way,
+      tag: this.tags[base + way],
+      data: null,
+      lastUsed: this.lastUsed[base + way],
+      insertedAt: this.insertedAt[base + way],
+      isDirty: this.dirty[base + way] === 1,
+      prefetched: this.prefetched[base + way] === 1,
+      storedAt: this.storedAt[base + way]
+    }));
+  }
+}
+
+/**
+ * The same hierarchy as MemoryHierarchy plus CacheSimulator's bookkeeping,
+ * for long traces: no contents are copied and no events are built, only the
+ * counters behind SimulationStats move. Fed the same accesses from empty
+ * caches, getStats() matches CacheSimulator.getStats() exactly.
+ */
+export class FastHierarchy {
+  private config: HierarchyConfig;
+  private levels: FastLevel[];
+  private accesses = 0;
+  private levelCounts: LevelStats[];
+  private memoryWriteBacks = 0;
+  private missTypes = CacheSimulationEngine.emptyMissBreakdown();
+  private energy: EnergyCounts = emptyEnergyCounts();
+  private prefetch = { issued: 0, useful: 0, unused: 0, pollution: 0 };
+  private freshness = { staleHitsAvoided: 0, refreshes: 0 };
+  private latency = emptyLatencyStats();
+  private random: () => number;
+
+  constructor(config: HierarchyConfig) {
+    this.config = config;
+    this.random = createRandom(config.latencySeed ?? DEFAULT_SEED);
+    this.levels = config.levels.map(level => new FastLevel(level));
+    this.levelCounts = config.levels.map(() => ({ accesses: 0, hits: 0 }));
+  }
+
+  get depth(): number {
+    return this.levels.length;
+  }
+
+  /** `now` is the reading's wall-clock ms, as for CacheSimulator.access. */
+  access(address: number, sensor: Pick<SensorData, 'id' | 'type'> | null, kind: AccessKind = AccessKind.READ, now = 0) {
+    let servedBy = this.depth;
+    let isWrite = kind === AccessKind.WRITE;
+    let memoryWrites = 0;
+    const writeBacksBefore = this.memoryWriteBacks;
+
+    for (let i = 0; i < this.depth; i++) {
+      const level = this.levels[i];
+      if (this.isExclusive(i)) {
+        const removed = level.invalidate(address);
+        const found = removed.slot !== EMPTY;
+        if (found) this.energy.cacheHits++;
+        else this.energy.cacheMisses++;
+        if (found) {
+          servedBy = i;
+          if (removed.dirty) this.keepDirtyAbove(i, address);
+          break;
+        }
+        continue;
+      }
+
+      level.access(address, isWrite, i === 0 ? now : 0, sensor?.type ?? null);
+      const { hit, memoryWrite, fill } = level;
+      if (hit) this.energy.cacheHits++;
+      else this.energy.cacheMisses++;
+      if (i === 0) {
+        if (level.missType) this.missTypes[level.missType]++;
+        if (level.prefetchHit) this.prefetch.useful++;
+        if (level.pollutionMiss) this.prefetch.pollution++;
+        if (level.staleHitAvoided) this.freshness.staleHitsAvoided++;
+        if (level.refreshed) this.freshness.refreshes++;
+      }
+      if (level.refreshed) this.energy.memoryAccesses++;
+
+      if (fill && fill.evictedAddress !== EMPTY) {
+        if (i === 0 && fill.evictedPrefetched) this.prefetch.unused++;
+        if (!level.staleHitAvoided) {
+          this.handleVictim(i, fill.evictedAddress, fill.evictedDirty);
+        } else {
+          if (fill.evictedDirty) {
+            this.energy.writeBacks++;
+            this.forwardWrite(i + 1, fill.evictedAddress, true);
+          }
+          this.dropStaleBelow(i, fill.evictedAddress);
+        }
+      }
+
+      if (hit) {
+        servedBy = i;
+        if (memoryWrite) memoryWrites += this.forwardWrite(i + 1, address, false);
+        break;
+      }
+      isWrite = memoryWrite;
+    }
+
+    this.prefetchFor(address, sensor?.id ?? null);
+
+    this.accesses++;
+    this.levelCounts.forEach((counts, i) => {
+      if (servedBy >= i) counts.accesses++;
+      if (servedBy === i) counts.hits++;
+    });
+    const writeBacks = this.memoryWriteBacks - writeBacksBefore;
+    this.energy.memoryAccesses += (servedBy === this.depth ? 1 : 0) + memoryWrites + writeBacks;
+    addLatency(this.latency, sampleAccessLatency(this.config, servedBy, writeBacks, this.random));
+  }
+
+  getStats(): SimulationStats {
+    const levelStats = this.levelCounts.map(counts => ({ ...counts }));
+    const hits = levelStats[0]?.hits ?? 0;
+    return {
+      accesses: this.accesses,
+      hits,
+      hitRatio: this.accesses > 0 ? (hits / this.accesses) * 100 : 0,
+      amat: MemoryHierarchy.calculateAmat(this.config, levelStats, this.memoryWriteBacks),
+      levelStats,
+      memoryWriteBacks: this.memoryWriteBacks,
+      missTypes: { ...this.missTypes },
+      energy: { ...this.energy },
+      prefetch: { ...this.prefetch },
+      freshness: { ...this.freshness },
+      latency: { ...this.latency, buckets: [...this.latency.buckets] }
+    };
+  }
+
+  private isExclusive(level: number): boolean {
+    return level > 0 && this.config.levels[level].inclusion === InclusionPolicy.EXCLUSIVE;
+  }
+
+  private isInclusive(level: number): boolean {
+    return level > 0 && this.config.levels[level].inclusion === InclusionPolicy.INCLUSIVE;
+  }
+
+  private handleVictim(level: number, address: number, isDirty: boolean) {
+    let dirty = isDirty;
+
+    if (this.isInclusive(level)) {
+      const lineEnd = address + this.levels[level].blockSize;
+      for (let above = 0; above < level; above++) {
+        for (let a = address; a < lineEnd; a += this.levels[above].blockSize) {
+          const removed = this.levels[above].invalidate(a);
+          if (removed.slot === EMPTY) continue;
+          if (above === 0 && removed.prefetched) this.prefetch.unused++;
+          if (removed.dirty) dirty = true;
+        }
+      }
+    }
+
+    const below = level + 1;
+    if (dirty) this.energy.writeBacks++;
+    if (below < this.depth && this.isExclusive(below)) {
+      const fill = this.levels[below].insert(address, dirty);
+      if (fill.evictedAddress !== EMPTY) this.handleVictim(below, fill.evictedAddress, fill.evictedDirty);
+      return;
+    }
+
+    if (dirty) this.forwardWrite(below, address, true);
+  }
+
+  /** Returns the write-through stores that reached main memory. */
+  private forwardWrite(level: number, address: number, isWriteBack: boolean): number {
+    if (level >= this.depth) {
+      if (isWriteBack) this.memoryWriteBacks++;
+      return isWriteBack ? 0 : 1;
+    }
+    return this.levels[level].absorbWrite(address) ? this.forwardWrite(level + 1, address, isWriteBack) : 0;
+  }
+
+  private dropStaleBelow(level: number, address: number) {
+    const lineEnd = address + this.levels[level].blockSize;
+    for (let below = level + 1; below < this.depth; below++) {
+      for (let a = address; a < lineEnd; a += this.levels[below].blockSize) {
+        if (!this.levels[below].invalidate(a).dirty) continue;
+        this.memoryWriteBacks++;
+        this.energy.writeBacks++;
+      }
+    }
+  }
+
+  private keepDirtyAbove(level: number, address: number) {
+    for (let above = level - 1; above >= 0; above--) {
+      if (this.levels[above].probe(address) === EMPTY) continue;
+      if (!this.levels[above].isWriteBack) break;
+      this.levels[above].markDirty(address);
+      return;
+    }
+    this.memoryWriteBacks++;
+    this.energy.writeBacks++;
+  }
+
+  private prefetchFor(address: number, sensorId: number | null) {
+    const first = this.levels[0];
+    for (const target of first.prefetchTargets(address, sensorId)) {
+      if (first.probe(target) !== EMPTY) continue;
+
+      let from = this.depth;
+      let suppliedDirty = false;
+      for (let i = 1; i < this.depth; i++) {
+        const slot = this.levels[i].probe(target);
+        if (slot === EMPTY) continue;
+        from = i;
+        if (this.isExclusive(i)) suppliedDirty = this.levels[i].invalidate(target).dirty;
+        break;
+      }
+
+      const fill = first.prefetch(target);
+      this.prefetch.issued++;
+      if (from === this.depth) this.energy.memoryAccesses++;
+      else this.energy.cacheHits++;
+      if (fill.evictedAddress !== EMPTY && fill.evictedPrefetched) this.prefetch.unused++;
+      if (suppliedDirty) this.keepDirtyAbove(from, target);
+      if (fill.evictedAddress !== EMPTY) this.handleVictim(0, fill.evictedAddress, fill.evictedDirty);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+
+import { AccessTiming, HierarchyConfig, LatencyConfig, LatencyDistribution, LatencySpread, LatencyStats } from '../types';
+import { DEFAULT_SEED, GATEWAY_HIT_TIME, HIT_TIME, MISS_PENALTY } from '../constants';
+
+// The shelf is local flash, the gateway a short hop away, and the warehouse a radio link that now and then retries
+export const DEFAULT_LATENCY: LatencyConfig = {
+  shelf: { distribution: LatencyDistribution.FIXED, mean: HIT_TIME, deviation: 0 },
+  gateway: { distribution: LatencyDistribution.NORMAL, mean: GATEWAY_HIT_TIME, deviation: 2 },
+  warehouse: { distribution: LatencyDistribution.LONG_TAIL, mean: MISS_PENALTY, deviation: 80 },
+  seed: DEFAULT_SEED
+};
+
+/** The shelf on its own in front of the warehouse, as setups are compared. */
+export const shelfTiming = (latency: LatencyConfig): AccessTiming => ({ hitTime: latency.shelf.mean, memoryLatency: latency.warehouse.mean });
+
+// Bucket 0 holds anything under the floor; each later bucket is 5% wider than the one before, so percentiles are good to 5%
+const LATENCY_FLOOR_MS = 0.01;
+const BUCKET_GROWTH = 1.05;
+
+export const emptyLatencyStats = (): LatencyStats => ({ samples: 0, total: 0, min: 0, max: 0, buckets: [] });
+
+const bucketOf = (ms: number): number =>
+  ms < LATENCY_FLOOR_MS ? 0 : Math.floor(Math.log(ms / LATENCY_FLOOR_MS) / Math.log(BUCKET_GROWTH)) + 1;
+
+const bucketUpperBound = (bucket: number): number => LATENCY_FLOOR_MS * BUCKET_GROWTH ** bucket;
+
+// Box-Muller; `1 - random()` keeps the logarithm away from zero
+const standardNormal = (random: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * Draws one response time around `mean`. A normal spread is cut off at zero;
+ * a long tail is log-normal with the given mean and standard deviation, so
+ * most draws land a little under the mean and a few land far above it.
+ * Fixed tiers draw no random numbers.
+ */
+export const sampleLatency = (mean: number, spread: LatencySpread | undefined, random: () => number): number => {
+  if (!spread || spread.distribution === LatencyDistribution.FIXED || spread.deviation <= 0 || mean <= 0) return mean;
+  const z = standardNormal(random);
+  if (spread.distribution === LatencyDistribution.NORMAL) return Math.max(0, mean + spread.deviation * z);
+  const sigmaSquared = Math.log(1 + (spread.deviation / mean) ** 2);
+  return Math.exp(Math.log(mean) - sigmaSquared / 2 + Math.sqrt(sigmaSquared) * z);
+};
+
+/**
+ * One access's response time: a lookup at every level down to the one that
+ * served it, a warehouse trip when none did, and one more warehouse trip per
+ * dirty line it pushed all the way out. Averaged over many accesses this is
+ * the AMAT that MemoryHierarchy.calculateAmat predicts.
+ */
+export const sampleAccessLatency = (
+  config: HierarchyConfig,
+  servedBy: number,
+  memoryWriteBacks: number,
+  random: () => number
+): number => {
+  let ms = 0;
+  const reached = Math.min(servedBy, config.levels.length - 1);
+  for (let i = 0; i <= reached; i++) ms += sampleLatency(config.levels[i].hitTime, config.levels[i].spread, random);
+  const memoryTrips = (servedBy === config.levels.length ? 1 : 0) + memoryWriteBacks;
+  for (let i = 0; i < memoryTrips; i++) ms += sampleLatency(config.memoryLatency, config.memorySpread, random);
+  return ms;
+};
+
+/** Counts one sample into `stats` in place. */
+export const addLatency = (stats: LatencyStats, ms: number) => {
+  const bucket = bucketOf(ms);
+  while (stats.buckets.length <= bucket) stats.buckets.push(0);
+  stats.buckets[bucket]++;
+  stats.min = stats.samples === 0 ? ms : Math.min(stats.min, ms);
+  stats.max = stats.samples === 0 ? ms : Math.max(stats.max, ms);
+  stats.samples++;
+  stats.total += ms;
+};
+
+export const meanLatency = (stats: LatencyStats): number => (stats.samples > 0 ? stats.total / stats.samples : 0);
+
+/** The response time `percent` of accesses came in under, to the bucket's resolution. */
+export const latencyPercentile = (stats: LatencyStats, percent: number): number => {
+  if (stats.samples === 0) return 0;
+  const rank = Math.max(1, Math.ceil((percent / 100) * stats.samples));
+  let seen = 0;
+  for (let bucket = 0; bucket < stats.buckets.length; bucket++) {
+    seen += stats.buckets[bucket];
+    if (seen >= rank) return Math.min(stats.max, Math.max(stats.min, bucketUpperBound(bucket)));
+  }
+  return stats.max;
+};
+
+/** Merges the buckets between the fastest and slowest sample into at most `bars` bars for charting. */
+export const latencyHistogram = (stats: LatencyStats, bars: number): { upTo: number; count: number }[] => {
+  if (stats.samples === 0) return [];
+  const first = bucketOf(stats.min);
+  const last = bucketOf(stats.max);
+  const width = Math.ceil((last - first + 1) / bars);
+  const histogram: { upTo: number; count: number }[] = [];
+  for (let start = first; start <= last; start += width) {
+    const end = Math.min(start + width, last + 1);
+    let count = 0;
+    for (let bucket = start; bucket < end; bucket++) count += stats.buckets[bucket] ?? 0;
+    histogram.push({ upTo: Math.min(stats.max, bucketUpperBound(end - 1)), count });
+  }
+  return histogram;
+};
@@ -0,0 +1,307 @@
+
+import {
+  AccessKind, AccessTiming, CacheBlock, CacheEvent, CacheLevelConfig, HierarchyConfig, HierarchyResult, InclusionPolicy, LevelStats, SensorData,
+  SimulationResult
+} from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+
+interface AccessLog {
+  memoryWriteBacks: number;
+  memoryWrites: number;
+  events: CacheEvent[];
+}
+
+/**
+ * A stack of caches in front of main memory. Level 0 sees the demand stream;
+ * every deeper level only sees what the level above it missed, plus whatever
+ * its inclusion policy asks for (back-invalidations, victims moving down).
+ */
+export class MemoryHierarchy {
+  private config: HierarchyConfig;
+  private engines: CacheSimulationEngine[];
+
+  constructor(config: HierarchyConfig) {
+    this.config = config;
+    this.engines = config.levels.map(level => new CacheSimulationEngine(level));
+  }
+
+  get depth(): number {
+    return this.engines.length;
+  }
+
+  getEngine(level: number): CacheSimulationEngine {
+    return this.engines[level];
+  }
+
+  /** `now` (wall-clock ms) ages the first level's readings, and an expired one is fetched past the levels below; without it nothing expires. */
+  access(address: number, data: SensorData | null, currentCaches: CacheBlock[][], kind: AccessKind = AccessKind.READ, now = 0): HierarchyResult {
+    const caches = [...currentCaches];
+    const log: AccessLog = { memoryWriteBacks: 0, memoryWrites: 0, events: [] };
+    const levelHits: boolean[] = [];
+    let servedBy = this.depth;
+    let levelKind = kind;
+    let first: SimulationResult | undefined;
+
+    for (let i = 0; i < this.depth; i++) {
+      if (this.isExclusive(i)) {
+        // Exclusive levels are only probed; a hit moves the line up
+        const { cache, removed } = this.engines[i].invalidate(address, caches[i]);
+        caches[i] = cache;
+        levelHits.push(removed !== null);
+        log.events.push(removed
+          ? { type: 'hit', level: i, slot: removed.id, address, kind: levelKind }
+          : { type: 'miss', level: i, address, kind: levelKind, missType: null });
+        if (removed) {
+          servedBy = i;
+          if (removed.isDirty) this.keepDirtyAbove(i, address, caches, log);
+          break;
+        }
+        continue;
+      }
+
+      const before = caches[i];
+      const result = this.engines[i].access(address, data, before, levelKind, i === 0 ? now : 0);
+      caches[i] = result.cache;
+      levelHits.push(result.hit);
+      if (i === 0) first = result;
+      log.events.push(result.hit
+        ? { type: 'hit', level: i, slot: this.engines[i].probe(address, result.cache) as number, address, kind: levelKind }
+        : { type: 'miss', level: i, address, kind: levelKind, missType: result.missType });
+
+      if (result.replacedId !== null) {
+        if (result.evictedAddress !== null) {
+          const evicted = before[result.replacedId];
+          log.events.push({
+            type: 'evict', level: i, slot: result.replacedId, address: result.evictedAddress, dirty: evicted.isDirty, unusedPrefetch: evicted.prefetched === true,
+            expired: result.staleHitAvoided
+          });
+        }
+        log.events.push({ type: 'fill', level: i, slot: result.replacedId, address: this.lineStart(i, address) });
+      }
+
+      if (result.evictedAddress !== null) {
+        const evicted = before[result.replacedId as number];
+        // An expired copy is worthless to the levels below; only a change it still holds has to be saved
+        if (result.staleHitAvoided) {
+          if (evicted.isDirty) {
+            log.events.push({ type: 'write-back', level: i + 1, address: result.evictedAddress });
+            this.forwardWrite(i + 1, result.evictedAddress, evicted.data, caches, log, true);
+          }
+          this.dropStaleBelow(i, result.evictedAddress, caches, log);
+        } else {
+          this.handleVictim(i, result.evictedAddress, evicted.data, evicted.isDirty, caches, log);
+        }
+      }
+
+      if (result.refreshed) {
+        log.events.push({ type: 'refresh', level: i, slot: this.engines[i].probe(address, caches[i])!, address: this.lineStart(i, address) });
+      }
+
+      if (result.hit) {
+        servedBy = i;
+        if (result.memoryWrite) this.forwardWrite(i + 1, address, data, caches, log, false);
+        break;
+      }
+      // A write that went around this level is still a write further down; anything else is a line fetch
+      levelKind = result.memoryWrite ? AccessKind.WRITE : AccessKind.READ;
+    }
+
+    this.prefetch(address, data, first!, caches, log);
+
+    return {
+      servedBy,
+      levelHits,
+      memoryWriteBacks: log.memoryWriteBacks,
+      memoryWrites: log.memoryWrites,
+      first: first!,
+      caches,
+      events: log.events
+    };
+  }
+
+  static createEmptyCaches(config: HierarchyConfig): CacheBlock[][] {
+    return config.levels.map(level => CacheSimulationEngine.createEmptyCache(level.size));
+  }
+
+  /**
+   * AMAT_i = hitTime_i + localMissRatio_i * AMAT_(i+1), bottoming out at the
+   * main memory latency. Dirty lines written back to memory add a memory
+   * access each, as in the single-level model.
+   */
+  static calculateAmat(
+    config: { levels: Pick<CacheLevelConfig, 'hitTime'>[]; memoryLatency: number },
+    stats: LevelStats[],
+    memoryWriteBacks: number
+  ): number {
+    const amat = config.levels.reduceRight((below, level, i) => {
+      const { accesses, hits } = stats[i] ?? { accesses: 0, hits: 0 };
+      const missRatio = accesses > 0 ? 1 - hits / accesses : 1;
+      return level.hitTime + missRatio * below;
+    }, config.memoryLatency);
+
+    const demandAccesses = stats[0]?.accesses ?? 0;
+    return demandAccesses > 0 ? amat + (memoryWriteBacks / demandAccesses) * config.memoryLatency : amat;
+  }
+
+  /** calculateAmat for a cache with nothing between it and main memory. */
+  static calculateSingleLevelAmat(timing: AccessTiming, stats: LevelStats, memoryWriteBacks: number): number {
+    return MemoryHierarchy.calculateAmat({ levels: [timing], memoryLatency: timing.memoryLatency }, [stats], memoryWriteBacks);
+  }
+
+  /** Per-level access and hit counts, derived from which level served each access. */
+  static levelStats(depth: number, servedBy: number[]): LevelStats[] {
+    return Array.from({ length: depth }, (_, i) => ({
+      accesses: servedBy.filter(s => s >= i).length,
+      hits: servedBy.filter(s => s === i).length
+    }));
+  }
+
+  private isExclusive(level: number): boolean {
+    return level > 0 && this.config.levels[level].inclusion === InclusionPolicy.EXCLUSIVE;
+  }
+
+  private isInclusive(level: number): boolean {
+    return level > 0 && this.config.levels[level].inclusion === InclusionPolicy.INCLUSIVE;
+  }
+
+  private lineStart(level: number, address: number): number {
+    return address - (address % this.config.levels[level].blockSize);
+  }
+
+  private handleVictim(
+    level: number,
+    address: number,
+    data: SensorData | null,
+    isDirty: boolean,
+    caches: CacheBlock[][],
+    log: AccessLog
+  ) {
+    let dirty = isDirty;
+
+    // An inclusive level may not lose a line that an upper level still holds
+    if (this.isInclusive(level)) {
+      const lineEnd = address + this.config.levels[level].blockSize;
+      for (let above = 0; above < level; above++) {
+        for (let a = address; a < lineEnd; a += this.config.levels[above].blockSize) {
+          const { cache, removed } = this.engines[above].invalidate(a, caches[above]);
+          caches[above] = cache;
+          if (!removed) continue;
+          log.events.push({
+            type: 'evict', level: above, slot: removed.id, address: this.lineStart(above, a), dirty: removed.isDirty, unusedPrefetch: removed.prefetched === true, expired: false
+          });
+          if (removed.isDirty) dirty = true;
+        }
+      }
+    }
+
+    const below = level + 1;
+    if (dirty) log.events.push({ type: 'write-back', level: below, address });
+    if (below < this.depth && this.isExclusive(below)) {
+      const fill = this.engines[below].insert(address, data, caches[below], dirty);
+      caches[below] = fill.cache;
+      if (fill.evicted && fill.evictedAddress !== null) {
+        log.events.push({
+          type: 'evict', level: below, slot: fill.replacedId, address: fill.evictedAddress, dirty: fill.evicted.isDirty, unusedPrefetch: fill.evicted.prefetched === true, expired: false
+        });
+      }
+      log.events.push({ type: 'fill', level: below, slot: fill.replacedId, address });
+      if (fill.evicted && fill.evictedAddress !== null) {
+        this.handleVictim(below, fill.evictedAddress, fill.evicted.data, fill.evicted.isDirty, caches, log);
+      }
+      return;
+    }
+
+    if (dirty) this.forwardWrite(below, address, data, caches, log, true);
+  }
+
+  private forwardWrite(
+    level: number,
+    address: number,
+    data: SensorData | null,
+    caches: CacheBlock[][],
+    log: AccessLog,
+    isWriteBack: boolean
+  ) {
+    if (level >= this.depth) {
+      // Write-through stores drain through a write buffer; only write-backs cost AMAT
+      if (isWriteBack) log.memoryWriteBacks++;
+      else log.memoryWrites++;
+      return;
+    }
+
+    const { cache, forward } = this.engines[level].absorbWrite(address, data, caches[level]);
+    caches[level] = cache;
+    if (forward) this.forwardWrite(level + 1, address, data, caches, log, isWriteBack);
+  }
+
+  /**
+   * Fetches whatever the first level's prefetcher asks for after a demand
+   * access. Each line comes from the nearest level below that holds it, or
+   * from main memory; an exclusive level hands its copy up, as on a hit.
+   */
+  private prefetch(address: number, data: SensorData | null, first: SimulationResult, caches: CacheBlock[][], log: AccessLog) {
+    const engine = this.engines[0];
+    for (const target of engine.prefetchTargets(address, data, first)) {
+      if (engine.probe(target, caches[0]) !== null) continue;
+
+      let from = this.depth;
+      let supplied: CacheBlock | null = null;
+      for (let i = 1; i < this.depth; i++) {
+        const slot = this.engines[i].probe(target, caches[i]);
+        if (slot === null) continue;
+        from = i;
+        supplied = caches[i][slot];
+        if (this.isExclusive(i)) caches[i] = this.engines[i].invalidate(target, caches[i]).cache;
+        break;
+      }
+
+      const fill = engine.prefetch(target, supplied?.data ?? null, caches[0], false);
+      caches[0] = fill.cache;
+      if (fill.evicted && fill.evictedAddress !== null) {
+        log.events.push({
+          type: 'evict', level: 0, slot: fill.replacedId, address: fill.evictedAddress, dirty: fill.evicted.isDirty, unusedPrefetch: fill.evicted.prefetched === true, expired: false
+        });
+      }
+      log.events.push({ type: 'prefetch', level: 0, slot: fill.replacedId, address: this.lineStart(0, target), from });
+      if (from < this.depth && this.isExclusive(from) && supplied?.isDirty) this.keepDirtyAbove(from, target, caches, log);
+      if (fill.evicted && fill.evictedAddress !== null) {
+        this.handleVictim(0, fill.evictedAddress, fill.evicted.data, fill.evicted.isDirty, caches, log);
+      }
+    }
+  }
+
+  /**
+   * Copies below `level` of a line it found expired are no younger, so they
+   * go too and the reading is fetched from main memory again. A change one of
+   * them holds is saved to memory first.
+   */
+  private dropStaleBelow(level: number, address: number, caches: CacheBlock[][], log: AccessLog) {
+    const lineEnd = address + this.config.levels[level].blockSize;
+    for (let below = level + 1; below < this.depth; below++) {
+      for (let a = address; a < lineEnd; a += this.config.levels[below].blockSize) {
+        const { cache, removed } = this.engines[below].invalidate(a, caches[below]);
+        caches[below] = cache;
+        if (!removed) continue;
+        const start = this.lineStart(below, a);
+        log.events.push({
+          type: 'evict', level: below, slot: removed.id, address: start, dirty: removed.isDirty, unusedPrefetch: removed.prefetched === true, expired: true
+        });
+        if (!removed.isDirty) continue;
+        log.memoryWriteBacks++;
+        log.events.push({ type: 'write-back', level: this.depth, address: start });
+      }
+    }
+  }
+
+  /** A dirty line moving up out of an exclusive level keeps its dirty state in the level that now holds it. */
+  private keepDirtyAbove(level: number, address: number, caches: CacheBlock[][], log: AccessLog) {
+    for (let above = level - 1; above >= 0; above--) {
+      if (this.engines[above].probe(address, caches[above]) === null) continue;
+      if (!this.engines[above].isWriteBack) break;
+      caches[above] = this.engines[above].markDirty(address, caches[above]);
+      return;
+    }
+    log.memoryWriteBacks++;
+    log.events.push({ type: 'write-back', level: this.depth, address: this.lineStart(level, address) });
+  }
+}
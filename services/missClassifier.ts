@@ -0,0 +1,36 @@
+
+import { MissType } from '../types';
+
+/**
+ * Labels misses with the 3C model. A line never seen before is compulsory;
+ * otherwise a fully-associative LRU cache of the same capacity decides: if it
+ * would have missed too the cache is simply too small (capacity), if it would
+ * have hit the miss came from the set mapping (conflict).
+ */
+export class MissClassifier {
+  private capacity: number;
+  private seen = new Set<number>();
+  // Map iteration order doubles as LRU order: oldest line first
+  private shadow = new Map<number, true>();
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  /** Records the access and returns the miss category, or null for a hit. */
+  classify(lineAddress: number, hit: boolean): MissType | null {
+    const firstTouch = !this.seen.has(lineAddress);
+    const shadowHit = this.shadow.has(lineAddress);
+    this.seen.add(lineAddress);
+
+    this.shadow.delete(lineAddress);
+    this.shadow.set(lineAddress, true);
+    if (this.shadow.size > this.capacity) {
+      this.shadow.delete(this.shadow.keys().next().value as number);
+    }
+
+    if (hit) return null;
+    if (firstTouch) return MissType.COMPULSORY;
+    return shadowHit ? MissType.CONFLICT : MissType.CAPACITY;
+  }
+}
@@ -0,0 +1,146 @@
+
+/*
+ * Just enough MQTT 3.1.1 for a QoS 0 sensor feed over WebSockets: connect,
+ * subscribe, publish, keep-alive and disconnect. Shared by the browser feed
+ * and the local mock broker; no other packet types or QoS levels are
+ * supported.
+ */
+
+export type MqttPacket =
+  | { type: 'connect'; clientId: string; keepAlive: number }
+  | { type: 'connack'; returnCode: number }
+  | { type: 'publish'; topic: string; payload: Uint8Array }
+  | { type: 'subscribe'; packetId: number; topics: string[] }
+  | { type: 'suback'; packetId: number }
+  | { type: 'pingreq' }
+  | { type: 'pingresp' }
+  | { type: 'disconnect' };
+
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const SUBSCRIBE = 8;
+const SUBACK = 9;
+const PINGREQ = 12;
+const PINGRESP = 13;
+const DISCONNECT = 14;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const encodeString = (text: string): number[] => {
+  const bytes = encoder.encode(text);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const encodeLength = (length: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+};
+
+const packet = (firstByte: number, body: number[] | Uint8Array): Uint8Array =>
+  new Uint8Array([firstByte, ...encodeLength(body.length), ...body]);
+
+export const encodeMqtt = (message: MqttPacket): Uint8Array => {
+  switch (message.type) {
+    case 'connect':
+      // Protocol "MQTT" level 4, clean session, no will, no credentials
+      return packet(CONNECT << 4, [
+        ...encodeString('MQTT'), 4, 0x02, message.keepAlive >> 8, message.keepAlive & 0xff, ...encodeString(message.clientId)
+      ]);
+    case 'connack':
+      return packet(CONNACK << 4, [0, message.returnCode]);
+    case 'publish':
+      return packet(PUBLISH << 4, [...encodeString(message.topic), ...message.payload]);
+    case 'subscribe':
+      return packet((SUBSCRIBE << 4) | 0x02, [
+        message.packetId >> 8, message.packetId & 0xff, ...message.topics.flatMap(topic => [...encodeString(topic), 0])
+      ]);
+    case 'suback':
+      return packet(SUBACK << 4, [message.packetId >> 8, message.packetId & 0xff, 0]);
+    case 'pingreq':
+      return packet(PINGREQ << 4, []);
+    case 'pingresp':
+      return packet(PINGRESP << 4, []);
+    case 'disconnect':
+      return packet(DISCONNECT << 4, []);
+  }
+};
+
+const readString = (bytes: Uint8Array, at: number): { text: string; next: number } => {
+  const length = (bytes[at] << 8) | bytes[at + 1];
+  return { text: decoder.decode(bytes.subarray(at + 2, at + 2 + length)), next: at + 2 + length };
+};
+
+const decodeBody = (type: number, body: Uint8Array): MqttPacket => {
+  switch (type) {
+    case CONNECT: {
+      const protocol = readString(body, 0);
+      const keepAlive = (body[protocol.next + 2] << 8) | body[protocol.next + 3];
+      return { type: 'connect', clientId: readString(body, protocol.next + 4).text, keepAlive };
+    }
+    case CONNACK:
+      return { type: 'connack', returnCode: body[1] };
+    case PUBLISH: {
+      const topic = readString(body, 0);
+      return { type: 'publish', topic: topic.text, payload: body.slice(topic.next) };
+    }
+    case SUBSCRIBE: {
+      const topics: string[] = [];
+      for (let at = 2; at < body.length;) {
+        const topic = readString(body, at);
+        topics.push(topic.text);
+        at = topic.next + 1; // skip the requested QoS
+      }
+      return { type: 'subscribe', packetId: (body[0] << 8) | body[1], topics };
+    }
+    case SUBACK:
+      return { type: 'suback', packetId: (body[0] << 8) | body[1] };
+    case PINGREQ:
+      return { type: 'pingreq' };
+    case PINGRESP:
+      return { type: 'pingresp' };
+    case DISCONNECT:
+      return { type: 'disconnect' };
+    default:
+      throw new Error(`unsupported MQTT packet type ${type}`);
+  }
+};
+
+/**
+ * Splits a byte stream into whole packets. A WebSocket message may carry
+ * several packets or end halfway through one; the unfinished tail comes back
+ * as `rest` to be prepended to the next message.
+ */
+export const decodeMqtt = (bytes: Uint8Array): { packets: MqttPacket[]; rest: Uint8Array } => {
+  const packets: MqttPacket[] = [];
+  let at = 0;
+
+  while (at < bytes.length) {
+    let length = 0;
+    let multiplier = 1;
+    let cursor = at + 1;
+    let complete = false;
+    while (cursor < bytes.length && cursor - at <= 4) {
+      const byte = bytes[cursor++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete && cursor - at > 4) throw new Error('malformed MQTT remaining length');
+    if (!complete || cursor + length > bytes.length) break;
+
+    packets.push(decodeBody(bytes[at] >> 4, bytes.subarray(cursor, cursor + length)));
+    at = cursor + length;
+  }
+  return { packets, rest: bytes.slice(at) };
+};
@@ -0,0 +1,131 @@
+
+import { PrefetcherType } from '../types';
+import { ADDRESS_SPACE } from '../constants';
+
+// How many demand accesses ahead the schedule-aware prefetcher fetches a sensor that is due
+const SCHEDULE_LOOKAHEAD = 2;
+
+/** One demand access as the first level saw it. */
+export interface PrefetchContext {
+  address: number;
+  sensorId: number | null; // null for trace accesses without sensor data
+  hit: boolean;
+  prefetchHit: boolean;    // the hit was the first use of a prefetched line
+}
+
+/**
+ * Hook the hierarchy calls after every demand access at the first level.
+ * Returns the addresses worth fetching next; lines already cached are
+ * skipped by the caller, so a prefetcher does not need to track contents.
+ */
+export interface Prefetcher {
+  onAccess(context: PrefetchContext): number[];
+}
+
+const inRange = (address: number) => address >= 0 && address < ADDRESS_SPACE;
+
+/** Tagged next-line: a miss, or the first use of a prefetched line, fetches the following line. */
+class NextLinePrefetcher implements Prefetcher {
+  private blockSize: number;
+
+  constructor(blockSize: number) {
+    this.blockSize = blockSize;
+  }
+
+  onAccess({ address, hit, prefetchHit }: PrefetchContext): number[] {
+    if (hit && !prefetchHit) return [];
+    const next = address - (address % this.blockSize) + this.blockSize;
+    return inRange(next) ? [next] : [];
+  }
+}
+
+interface StrideEntry {
+  lastAddress: number;
+  stride: number;
+  confirmed: boolean; // the same stride was seen twice in a row
+}
+
+/** Learns the address step between consecutive accesses of each sensor and fetches one step ahead once it repeats. */
+class StridePrefetcher implements Prefetcher {
+  private entries = new Map<number, StrideEntry>();
+
+  onAccess({ address, sensorId }: PrefetchContext): number[] {
+    const key = sensorId ?? -1;
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.entries.set(key, { lastAddress: address, stride: 0, confirmed: false });
+      return [];
+    }
+
+    const stride = address - entry.lastAddress;
+    entry.confirmed = stride !== 0 && stride === entry.stride;
+    entry.stride = stride;
+    entry.lastAddress = address;
+
+    const next = address + stride;
+    return entry.confirmed && inRange(next) ? [next] : [];
+  }
+}
+
+interface ScheduleEntry {
+  lastTick: number;
+  lastAddress: number;
+  stride: number;
+  period: number | null; // smoothed accesses between polls of this sensor
+  fetchedFor: number;    // tick of the poll the last prefetch was aimed at
+}
+
+/**
+ * Learns how often each sensor is polled and where its next reading will
+ * land, then fetches that address shortly before the poll is due. Periods
+ * are counted in demand accesses, so the clock is the access stream itself.
+ */
+class SchedulePrefetcher implements Prefetcher {
+  private entries = new Map<number, ScheduleEntry>();
+  private tick = 0;
+
+  onAccess({ address, sensorId }: PrefetchContext): number[] {
+    this.tick++;
+    if (sensorId !== null) this.learn(sensorId, address);
+
+    const targets: number[] = [];
+    this.entries.forEach(entry => {
+      if (entry.period === null) return;
+      const due = entry.lastTick + Math.round(entry.period);
+      const ahead = due - this.tick;
+      if (ahead <= 0 || ahead > SCHEDULE_LOOKAHEAD || entry.fetchedFor === due) return;
+      entry.fetchedFor = due;
+      const next = entry.lastAddress + entry.stride;
+      if (inRange(next)) targets.push(next);
+    });
+    return targets;
+  }
+
+  private learn(sensorId: number, address: number) {
+    const entry = this.entries.get(sensorId);
+    if (!entry) {
+      this.entries.set(sensorId, { lastTick: this.tick, lastAddress: address, stride: 0, period: null, fetchedFor: 0 });
+      return;
+    }
+    const interval = this.tick - entry.lastTick;
+    // Weigh the newest interval by half so a changed schedule is picked up within a few polls
+    entry.period = entry.period === null ? interval : (entry.period + interval) / 2;
+    entry.stride = address - entry.lastAddress;
+    entry.lastTick = this.tick;
+    entry.lastAddress = address;
+  }
+}
+
+/** Builds the prefetcher for `type`, or null when the level should not prefetch. */
+export const createPrefetcher = (type: PrefetcherType, blockSize: number): Prefetcher | null => {
+  switch (type) {
+    case PrefetcherType.NONE:
+      return null;
+    case PrefetcherType.NEXT_LINE:
+      return new NextLinePrefetcher(blockSize);
+    case PrefetcherType.STRIDE:
+      return new StridePrefetcher();
+    case PrefetcherType.SCHEDULE:
+      return new SchedulePrefetcher();
+  }
+};
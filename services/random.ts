@@ -0,0 +1,16 @@
+
+/**
+ * Seeded pseudo-random generator (mulberry32). Anything that needs to be
+ * reproducible from a seed should draw from this instead of Math.random().
+ * `skip` starts the stream that many draws in, so a saved one picks up where it stopped.
+ */
+export const createRandom = (seed: number, skip = 0): (() => number) => {
+  let state = (seed + Math.imul(skip, 0x6D2B79F5)) >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
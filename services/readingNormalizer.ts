@@ -0,0 +1,89 @@
+
+import { AccessKind, TraceRecord } from '../types';
+import { ADDRESS_SPACE, SENSOR_UNITS } from '../constants';
+import { SensorNetwork } from './sensorNetwork';
+
+// Spellings devices send for the units we store, per type
+const UNIT_ALIASES: Record<string, Record<string, (value: number) => number>> = {
+  Moisture: { '%': v => v, pct: v => v, percent: v => v, vwc: v => v },
+  Temperature: { '°c': v => v, c: v => v, celsius: v => v, '°f': v => ((v - 32) * 5) / 9, f: v => ((v - 32) * 5) / 9, fahrenheit: v => ((v - 32) * 5) / 9 },
+  Humidity: { '%': v => v, pct: v => v, percent: v => v, '%rh': v => v, rh: v => v }
+};
+
+const TYPES_BY_NAME = new Map(Object.keys(SENSOR_UNITS).map(type => [type.toLowerCase(), type]));
+
+const toNumber = (raw: unknown): number | null => {
+  const n = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+// The clock time shown with a reading, and its epoch ms when the device sent a real date
+const readTimestamp = (raw: unknown): { timestamp: string; time?: number } | null => {
+  if (raw === undefined || raw === null) return { timestamp: new Date().toLocaleTimeString() };
+  if (typeof raw === 'number') return Number.isFinite(raw) ? { timestamp: new Date(raw).toLocaleTimeString(), time: raw } : null;
+  if (typeof raw !== 'string' || raw.trim() === '') return null;
+  // ISO dates become clock times like the rest of the feed; anything else (e.g. "#12") is kept as sent
+  const parsed = /^\d{4}-\d{2}-\d{2}T/.test(raw) ? Date.parse(raw) : NaN;
+  return Number.isNaN(parsed) ? { timestamp: raw.trim() } : { timestamp: new Date(parsed).toLocaleTimeString(), time: parsed };
+};
+
+/**
+ * Turns loosely typed JSON from a device into a reading the cache can take.
+ * Accepts numeric strings, any case for the type, common unit spellings
+ * (Fahrenheit is converted) and epoch or ISO timestamps. A reading without
+ * an address is a new value: it goes to the next slot of its sensor's history,
+ * as generated traffic does.
+ */
+export class ReadingNormalizer {
+  private network: SensorNetwork;
+  private heads: number[];
+
+  constructor(network: SensorNetwork) {
+    this.network = network;
+    this.heads = new Array(network.sensors.length).fill(0);
+  }
+
+  normalize(raw: unknown): { record: TraceRecord } | { error: string } {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { error: 'reading must be a JSON object' };
+    const message = raw as Record<string, unknown>;
+
+    const id = toNumber(message.id);
+    if (id === null || !Number.isInteger(id) || id < 0 || id >= this.network.sensors.length) {
+      return { error: `unknown sensor id ${JSON.stringify(message.id)} (field has ${this.network.sensors.length} sensors)` };
+    }
+
+    const expected = this.network.sensors[id].type;
+    const type = typeof message.type === 'string' ? TYPES_BY_NAME.get(message.type.trim().toLowerCase()) : expected;
+    if (type !== expected) return { error: `sensor ${id} reports ${expected}, not ${JSON.stringify(message.type)}` };
+
+    const rawValue = toNumber(message.value);
+    if (rawValue === null) return { error: `sensor ${id}: value ${JSON.stringify(message.value)} is not a number` };
+    const unit = typeof message.unit === 'string' ? message.unit.trim().toLowerCase() : SENSOR_UNITS[type].toLowerCase();
+    const convert = UNIT_ALIASES[type]?.[unit];
+    if (!convert) return { error: `sensor ${id}: unit ${JSON.stringify(message.unit)} is not a ${type.toLowerCase()} unit` };
+
+    const taken = readTimestamp(message.timestamp);
+    if (taken === null) return { error: `sensor ${id}: timestamp ${JSON.stringify(message.timestamp)} is not a time` };
+
+    const rawKind = typeof message.kind === 'string' ? message.kind.trim().toLowerCase() : 'write';
+    if (rawKind !== 'read' && rawKind !== 'write') return { error: `sensor ${id}: kind must be "read" or "write"` };
+    const kind = rawKind === 'read' ? AccessKind.READ : AccessKind.WRITE;
+
+    let address = toNumber(message.address);
+    if (message.address !== undefined && (address === null || !Number.isInteger(address) || address < 0 || address >= ADDRESS_SPACE)) {
+      return { error: `sensor ${id}: address ${JSON.stringify(message.address)} is outside the ${ADDRESS_SPACE}-location memory` };
+    }
+    if (address === null) {
+      if (kind === AccessKind.WRITE) this.heads[id]++;
+      address = this.network.addressOf(id, this.heads[id]);
+    }
+
+    return {
+      record: {
+        sensor: { id, type, value: Number(convert(rawValue).toFixed(1)), unit: SENSOR_UNITS[type], timestamp: taken.timestamp, address },
+        kind,
+        ...(taken.time !== undefined ? { time: taken.time } : {})
+      }
+    };
+  }
+}
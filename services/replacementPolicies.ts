@@ -0,0 +1,221 @@
+
+import { CacheBlock, ReplacementPolicy } from '../types';
+import { createRandom } from './random';
+
+/**
+ * Hook points the engine calls while it runs a set-associative cache.
+ * `way` is always the position inside the set (0..ways-1), not the slot id.
+ */
+export interface ReplacementStrategy {
+  onAccess(lineAddress: number): void;
+  onHit(setIndex: number, way: number): void;
+  onFill(setIndex: number, way: number): void;
+  chooseVictim(setIndex: number, blocks: CacheBlock[]): number;
+  /** Why `way` was chosen; called right after chooseVictim, before the fill. */
+  explainVictim(setIndex: number, way: number, blocks: CacheBlock[]): string;
+}
+
+interface CacheGeometry {
+  numSets: number;
+  ways: number;
+}
+
+const oldestBy = (blocks: CacheBlock[], rank: (block: CacheBlock) => number): number =>
+  blocks.reduce((victim, block, way) => (rank(block) < rank(blocks[victim]) ? way : victim), 0);
+
+class LruStrategy implements ReplacementStrategy {
+  onAccess() {}
+  onHit() {}
+  onFill() {}
+  chooseVictim(_setIndex: number, blocks: CacheBlock[]): number {
+    return oldestBy(blocks, block => block.lastUsed);
+  }
+  explainVictim(_setIndex: number, way: number, blocks: CacheBlock[]): string {
+    return `Least recently used: last touched at tick ${blocks[way].lastUsed}`;
+  }
+}
+
+class FifoStrategy implements ReplacementStrategy {
+  onAccess() {}
+  onHit() {}
+  onFill() {}
+  chooseVictim(_setIndex: number, blocks: CacheBlock[]): number {
+    return oldestBy(blocks, block => block.insertedAt);
+  }
+  explainVictim(_setIndex: number, way: number, blocks: CacheBlock[]): string {
+    return `First in: stored at tick ${blocks[way].insertedAt}`;
+  }
+}
+
+class LfuStrategy implements ReplacementStrategy {
+  private counts: number[];
+  private ways: number;
+
+  constructor({ numSets, ways }: CacheGeometry) {
+    this.ways = ways;
+    this.counts = new Array(numSets * ways).fill(0);
+  }
+
+  onAccess() {}
+
+  onHit(setIndex: number, way: number) {
+    this.counts[setIndex * this.ways + way]++;
+  }
+
+  onFill(setIndex: number, way: number) {
+    this.counts[setIndex * this.ways + way] = 1;
+  }
+
+  chooseVictim(setIndex: number, blocks: CacheBlock[]): number {
+    const base = setIndex * this.ways;
+    // Ties between equally cold blocks fall back to LRU order
+    return blocks.reduce((victim, block, way) => {
+      const count = this.counts[base + way];
+      const victimCount = this.counts[base + victim];
+      return count < victimCount || (count === victimCount && block.lastUsed < blocks[victim].lastUsed) ? way : victim;
+    }, 0);
+  }
+
+  explainVictim(setIndex: number, way: number): string {
+    const count = this.counts[setIndex * this.ways + way];
+    return `Least frequently used: ${count} use${count === 1 ? '' : 's'} since it was stored`;
+  }
+}
+
+class RandomStrategy implements ReplacementStrategy {
+  private random: () => number;
+
+  constructor(seed: number) {
+    this.random = createRandom(seed);
+  }
+
+  onAccess() {}
+  onHit() {}
+  onFill() {}
+  chooseVictim(_setIndex: number, blocks: CacheBlock[]): number {
+    return Math.floor(this.random() * blocks.length);
+  }
+  explainVictim(_setIndex: number, way: number, blocks: CacheBlock[]): string {
+    return `Random draw: way ${way} of ${blocks.length}`;
+  }
+}
+
+/**
+ * Binary-tree pseudo-LRU: each set keeps ways-1 direction bits. A touch
+ * points every node on the path away from the touched way; the victim is
+ * found by following the bits from the root.
+ */
+class TreePlruStrategy implements ReplacementStrategy {
+  private bits: number[][];
+  private ways: number;
+
+  constructor({ numSets, ways }: CacheGeometry) {
+    this.ways = ways;
+    this.bits = Array.from({ length: numSets }, () => new Array(Math.max(ways - 1, 0)).fill(0));
+  }
+
+  onAccess() {}
+
+  onHit(setIndex: number, way: number) {
+    this.touch(setIndex, way);
+  }
+
+  onFill(setIndex: number, way: number) {
+    this.touch(setIndex, way);
+  }
+
+  chooseVictim(setIndex: number): number {
+    const bits = this.bits[setIndex];
+    let node = 0;
+    while (node < this.ways - 1) {
+      node = 2 * node + 1 + bits[node];
+    }
+    return node - (this.ways - 1);
+  }
+
+  explainVictim(setIndex: number, way: number): string {
+    return `Tree bits ${this.bits[setIndex].join('')} point to way ${way}`;
+  }
+
+  private touch(setIndex: number, way: number) {
+    const bits = this.bits[setIndex];
+    let node = way + this.ways - 1;
+    while (node > 0) {
+      const parent = Math.floor((node - 1) / 2);
+      bits[parent] = node === 2 * parent + 1 ? 1 : 0;
+      node = parent;
+    }
+  }
+}
+
+/**
+ * Belady's optimal policy: evicts the block whose next use lies furthest in
+ * the future. Only meaningful when the whole access stream is known upfront.
+ */
+class OptimalStrategy implements ReplacementStrategy {
+  private numSets: number;
+  private positions = new Map<number, number[]>();
+  private cursors = new Map<number, number>();
+  private time = -1;
+
+  // With no trace every line looks unused from here on, so the first way is evicted
+  constructor({ numSets }: CacheGeometry, blockSize: number, futureTrace: number[]) {
+    this.numSets = numSets;
+    futureTrace.forEach((address, i) => {
+      const line = Math.floor(address / blockSize);
+      const list = this.positions.get(line);
+      if (list) list.push(i);
+      else this.positions.set(line, [i]);
+    });
+  }
+
+  onAccess(lineAddress: number) {
+    this.time++;
+    const list = this.positions.get(lineAddress);
+    if (!list) return;
+    let cursor = this.cursors.get(lineAddress) ?? 0;
+    while (cursor < list.length && list[cursor] <= this.time) cursor++;
+    this.cursors.set(lineAddress, cursor);
+  }
+
+  onHit() {}
+  onFill() {}
+
+  chooseVictim(setIndex: number, blocks: CacheBlock[]): number {
+    return oldestBy(blocks, block => -this.nextUse((block.tag as number) * this.numSets + setIndex));
+  }
+
+  explainVictim(setIndex: number, way: number, blocks: CacheBlock[]): string {
+    const next = this.nextUse((blocks[way].tag as number) * this.numSets + setIndex);
+    return next === Infinity
+      ? 'Never needed again'
+      : `Needed again furthest away: ${next - this.time} accesses from now`;
+  }
+
+  private nextUse(lineAddress: number): number {
+    const list = this.positions.get(lineAddress);
+    const cursor = this.cursors.get(lineAddress) ?? 0;
+    return list && cursor < list.length ? list[cursor] : Infinity;
+  }
+}
+
+export const createReplacementStrategy = (
+  policy: ReplacementPolicy,
+  geometry: CacheGeometry,
+  options: { blockSize: number; seed: number; futureTrace: number[] }
+): ReplacementStrategy => {
+  switch (policy) {
+    case ReplacementPolicy.LRU:
+      return new LruStrategy();
+    case ReplacementPolicy.FIFO:
+      return new FifoStrategy();
+    case ReplacementPolicy.LFU:
+      return new LfuStrategy(geometry);
+    case ReplacementPolicy.RANDOM:
+      return new RandomStrategy(options.seed);
+    case ReplacementPolicy.PLRU:
+      return new TreePlruStrategy(geometry);
+    case ReplacementPolicy.OPT:
+      return new OptimalStrategy(geometry, options.blockSize, options.futureTrace);
+  }
+};
@@ -0,0 +1,88 @@
+
+import { MissRatioPoint, ReuseProfile, TraceAccess } from '../types';
+
+/**
+ * Mattson's stack algorithm. Lines sit on a stack ordered by last use; a
+ * reuse's distance is how deep the line was found, and it moves to the top.
+ * A fully-associative LRU cache of C lines holds exactly the top C entries,
+ * so one pass gives the hit or miss of every cache size at once: a reuse at
+ * distance d hits every cache bigger than d.
+ */
+export class ReuseDistanceProfiler {
+  private blockSize: number;
+  private stack: number[] = []; // most recently used line last
+  private distances: number[] = [];
+  private accesses = 0;
+  private coldMisses = 0;
+
+  constructor(blockSize: number) {
+    this.blockSize = blockSize;
+  }
+
+  /** Records one access and returns its stack distance, or null the first time its line is used. */
+  access(address: number): number | null {
+    const line = Math.floor(address / this.blockSize);
+    this.accesses++;
+    const depth = this.stack.lastIndexOf(line);
+    if (depth === -1) {
+      this.coldMisses++;
+      this.stack.push(line);
+      return null;
+    }
+
+    const distance = this.stack.length - 1 - depth;
+    while (this.distances.length <= distance) this.distances.push(0);
+    this.distances[distance]++;
+    this.stack.splice(depth, 1);
+    this.stack.push(line);
+    return distance;
+  }
+
+  getProfile(): ReuseProfile {
+    return {
+      accesses: this.accesses,
+      coldMisses: this.coldMisses,
+      distances: [...this.distances],
+      distinctLines: this.stack.length
+    };
+  }
+}
+
+/** Profiles a whole trace in one pass. */
+export const profileTrace = (trace: Pick<TraceAccess, 'address'>[], blockSize: number): ReuseProfile => {
+  const profiler = new ReuseDistanceProfiler(blockSize);
+  trace.forEach(({ address }) => profiler.access(address));
+  return profiler.getProfile();
+};
+
+/**
+ * Miss ratio of every size from one slot up to one slot per distinct line,
+ * past which only first uses miss and the curve stays flat.
+ */
+export const missRatioCurve = (profile: ReuseProfile): MissRatioPoint[] => {
+  if (profile.accesses === 0) return [];
+  const points: MissRatioPoint[] = [];
+  // Reuses at distance >= size miss; start from all of them and drop one distance per size
+  let farReuses = profile.distances.reduce((sum, count) => sum + count, 0);
+  for (let size = 1; size <= Math.max(1, profile.distinctLines); size++) {
+    farReuses -= profile.distances[size - 1] ?? 0;
+    points.push({ size, missRatio: ((profile.coldMisses + farReuses) / profile.accesses) * 100 });
+  }
+  return points;
+};
+
+/** The smallest size whose hit ratio reaches `targetHitRatio` percent, or null when first uses alone miss too often. */
+export const recommendSize = (curve: MissRatioPoint[], targetHitRatio: number): number | null =>
+  curve.find(point => 100 - point.missRatio >= targetHitRatio)?.size ?? null;
+
+/** Reuses grouped by distance in doubling ranges (0, 1, 2-3, 4-7, ...), then first uses. */
+export const reuseHistogram = (profile: ReuseProfile): { label: string; count: number }[] => {
+  const bars: { label: string; count: number }[] = [];
+  for (let from = 0; from < profile.distances.length; from = from === 0 ? 1 : from * 2) {
+    const to = from === 0 ? 0 : from * 2 - 1;
+    const count = profile.distances.slice(from, to + 1).reduce((sum, n) => sum + n, 0);
+    bars.push({ label: from === to ? String(from) : `${from}-${to}`, count });
+  }
+  bars.push({ label: 'First use', count: profile.coldMisses });
+  return bars;
+};
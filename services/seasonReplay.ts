@@ -0,0 +1,20 @@
+
+import { SeasonMessage, SeasonRequest } from './seasonRunner';
+
+/**
+ * Runs a season in a Web Worker and forwards its messages. Returns the
+ * cancel function, which stops the worker immediately.
+ */
+export const startSeasonReplay = (request: SeasonRequest, listener: (message: SeasonMessage) => void): () => void => {
+  const worker = new Worker(new URL('./seasonWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SeasonMessage>) => {
+    listener(event.data);
+    if (event.data.type !== 'progress') worker.terminate();
+  };
+  worker.onerror = event => {
+    listener({ type: 'error', message: event.message || 'The simulation worker failed to start' });
+    worker.terminate();
+  };
+  worker.postMessage(request);
+  return () => worker.terminate();
+};
@@ -0,0 +1,70 @@
+
+import { HierarchyConfig, SimulationStats, WorkloadConfig } from '../types';
+import { FastHierarchy } from './fastHierarchy';
+import { WorkloadGenerator } from './workloadGenerator';
+
+// Every sensor reports every 15 minutes
+export const POLLS_PER_DAY = 96;
+const POLL_INTERVAL_MS = (24 * 60 * 60 * 1000) / POLLS_PER_DAY;
+
+// Readings simulated between two progress messages
+const CHUNK_SIZE = 25_000;
+
+export interface SeasonRequest {
+  config: HierarchyConfig;
+  workload: WorkloadConfig;
+  readings: number;
+}
+
+export interface SeasonPoint {
+  readings: number;
+  hitRatio: number; // over the whole season so far
+  amat: number;
+}
+
+export interface SeasonProgress {
+  done: number;
+  total: number;
+  stats: SimulationStats;
+  curve: SeasonPoint[]; // one point per chunk
+  elapsedMs: number;
+}
+
+export type SeasonMessage =
+  | ({ type: 'progress' } & SeasonProgress)
+  | ({ type: 'done' } & SeasonProgress)
+  | { type: 'error'; message: string };
+
+export const seasonReadings = (days: number, sensorCount: number) => days * POLLS_PER_DAY * sensorCount;
+
+/**
+ * Streams `request.readings` generated readings through a FastHierarchy,
+ * reporting after every chunk. Synchronous: meant for the season worker
+ * (or a script), never for the UI thread.
+ */
+export const runSeason = (request: SeasonRequest, report: (message: SeasonMessage) => void) => {
+  const started = performance.now();
+  const hierarchy = new FastHierarchy(request.config);
+  const workload = new WorkloadGenerator(request.workload);
+  const curve: SeasonPoint[] = [];
+
+  for (let done = 0; done < request.readings;) {
+    const end = Math.min(done + CHUNK_SIZE, request.readings);
+    // The season's clock moves on by one poll interval for every round of sensorCount readings
+    for (; done < end; done++) {
+      const { sensor, kind } = workload.next();
+      hierarchy.access(sensor.address, sensor, kind, Math.floor(done / request.workload.sensorCount) * POLL_INTERVAL_MS);
+    }
+
+    const stats = hierarchy.getStats();
+    curve.push({ readings: done, hitRatio: stats.hitRatio, amat: stats.amat });
+    report({
+      type: done === request.readings ? 'done' : 'progress',
+      done,
+      total: request.readings,
+      stats,
+      curve: [...curve],
+      elapsedMs: performance.now() - started
+    });
+  }
+};
@@ -0,0 +1,13 @@
+
+import { SeasonMessage, SeasonRequest, runSeason } from './seasonRunner';
+
+// Entry point of the season worker: one request in, a stream of SeasonMessages out
+const post = (message: SeasonMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SeasonRequest>) => {
+  try {
+    runSeason(event.data, post);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,270 @@
+
+import { TraceRecord } from '../types';
+import { SensorNetwork } from './sensorNetwork';
+import { ReadingNormalizer } from './readingNormalizer';
+import { decodeMqtt, encodeMqtt } from './mqttPackets';
+
+export type FeedProtocol = 'websocket' | 'mqtt';
+
+export interface FeedOptions {
+  url: string;
+  protocol: FeedProtocol;
+  topic: string; // MQTT only
+}
+
+export type FeedStatus = 'idle' | 'connecting' | 'live' | 'reconnecting';
+
+export interface FeedStats {
+  received: number;  // readings that arrived, valid or not
+  accepted: number;  // readings queued for the cache
+  rejected: number;
+  dropped: number;   // accepted readings pushed out of a full queue
+  queued: number;
+  paused: boolean;   // the publisher was asked to hold off
+  lastError: string | null;
+}
+
+export type FeedEvent = { type: 'status'; status: FeedStatus; retryInMs: number | null };
+
+export type FeedListener = (event: FeedEvent) => void;
+
+// Backpressure: ask the publisher to pause above the high mark and resume below the low one; drop the oldest past the limit
+const QUEUE_LIMIT = 2000;
+const QUEUE_HIGH_MARK = 1500;
+const QUEUE_LOW_MARK = 500;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const MQTT_KEEP_ALIVE_S = 60;
+
+const emptyFeedStats = (): FeedStats => ({
+  received: 0, accepted: 0, rejected: 0, dropped: 0, queued: 0, paused: false, lastError: null
+});
+
+/**
+ * Live readings from a WebSocket (one JSON reading or array per message) or
+ * an MQTT topic over WebSockets. Every reading is validated and normalised,
+ * then queued until the app takes it; the connection comes back on its own
+ * with exponential backoff until disconnect() is called.
+ */
+export class SensorFeed {
+  private options: FeedOptions | null = null;
+  private normalizer: ReadingNormalizer;
+  private socket: WebSocket | null = null;
+  private queue: TraceRecord[] = [];
+  private stats = emptyFeedStats();
+  private status: FeedStatus = 'idle';
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private mqttRest = new Uint8Array(0);
+  private listeners = new Set<FeedListener>();
+
+  constructor(network: SensorNetwork) {
+    this.normalizer = new ReadingNormalizer(network);
+  }
+
+  getStatus(): FeedStatus {
+    return this.status;
+  }
+
+  getStats(): FeedStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  /** Returns the unsubscribe function. */
+  subscribe(listener: FeedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Readings from now on are checked against `network`; queued ones were valid when they arrived and stay. */
+  setNetwork(network: SensorNetwork) {
+    this.normalizer = new ReadingNormalizer(network);
+  }
+
+  connect(options: FeedOptions) {
+    this.disconnect();
+    this.options = options;
+    this.stats = emptyFeedStats();
+    this.attempt = 0;
+    this.open();
+  }
+
+  disconnect() {
+    this.options = null;
+    this.clearTimers();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      if (socket.readyState === WebSocket.OPEN && socket.protocol === 'mqtt') socket.send(encodeMqtt({ type: 'disconnect' }));
+      socket.close();
+    }
+    this.setStatus('idle', null);
+  }
+
+  /** Removes and returns up to `max` of the oldest queued readings. */
+  take(max: number): TraceRecord[] {
+    const records = this.queue.splice(0, max);
+    if (this.stats.paused && this.queue.length <= QUEUE_LOW_MARK) this.sendControl('resume');
+    return records;
+  }
+
+  private open() {
+    const options = this.options;
+    if (!options) return;
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting', null);
+
+    let socket: WebSocket;
+    try {
+      socket = options.protocol === 'mqtt' ? new WebSocket(options.url, 'mqtt') : new WebSocket(options.url);
+    } catch (err) {
+      this.stats.lastError = err instanceof Error ? err.message : String(err);
+      this.scheduleReconnect();
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.mqttRest = new Uint8Array(0);
+
+    socket.onopen = () => {
+      if (options.protocol === 'websocket') {
+        this.goLive();
+        return;
+      }
+      socket.send(encodeMqtt({ type: 'connect', clientId: `agricache-${Date.now().toString(36)}`, keepAlive: MQTT_KEEP_ALIVE_S }));
+    };
+    socket.onmessage = event => {
+      if (options.protocol === 'websocket') this.receiveText(typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data));
+      else this.receiveMqtt(new Uint8Array(event.data as ArrayBuffer));
+    };
+    const dropped = () => {
+      if (this.socket !== socket) return; // closed on purpose, or already handled
+      this.socket = null;
+      this.clearTimers();
+      this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      this.stats.lastError = `Could not reach ${options.url}`;
+      // Some runtimes report a refused connection with an error and no close event
+      if (socket.readyState !== WebSocket.OPEN) dropped();
+    };
+    socket.onclose = dropped;
+  }
+
+  private goLive() {
+    this.attempt = 0;
+    this.stats.lastError = null;
+    // A fresh connection starts unpaused; re-pause if the queue is still backed up
+    this.stats.paused = false;
+    if (this.queue.length >= QUEUE_HIGH_MARK) this.sendControl('pause');
+    this.setStatus('live', null);
+  }
+
+  private scheduleReconnect() {
+    if (!this.options) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempt, RECONNECT_MAX_MS);
+    this.attempt++;
+    this.setStatus('reconnecting', delay);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private receiveMqtt(bytes: Uint8Array) {
+    const joined = new Uint8Array(this.mqttRest.length + bytes.length);
+    joined.set(this.mqttRest);
+    joined.set(bytes, this.mqttRest.length);
+
+    let decoded;
+    try {
+      decoded = decodeMqtt(joined);
+    } catch (err) {
+      this.stats.lastError = err instanceof Error ? err.message : String(err);
+      this.socket?.close();
+      return;
+    }
+    this.mqttRest = decoded.rest;
+
+    decoded.packets.forEach(packet => {
+      switch (packet.type) {
+        case 'connack':
+          if (packet.returnCode !== 0) {
+            this.stats.lastError = `Broker refused the connection (code ${packet.returnCode})`;
+            this.socket?.close();
+            return;
+          }
+          this.socket?.send(encodeMqtt({ type: 'subscribe', packetId: 1, topics: [this.options!.topic] }));
+          return;
+        case 'suback':
+          this.pingTimer = setInterval(() => this.socket?.send(encodeMqtt({ type: 'pingreq' })), (MQTT_KEEP_ALIVE_S / 2) * 1000);
+          this.goLive();
+          return;
+        case 'publish':
+          if (packet.topic === this.options?.topic) this.receiveText(new TextDecoder().decode(packet.payload));
+          return;
+        default:
+          return;
+      }
+    });
+  }
+
+  private receiveText(text: string) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      this.stats.received++;
+      this.reject('message is not valid JSON');
+      return;
+    }
+
+    (Array.isArray(payload) ? payload : [payload]).forEach(raw => {
+      this.stats.received++;
+      const result = this.normalizer.normalize(raw);
+      if ('error' in result) {
+        this.reject(result.error);
+        return;
+      }
+      this.stats.accepted++;
+      this.queue.push(result.record);
+      if (this.queue.length > QUEUE_LIMIT) {
+        this.queue.shift();
+        this.stats.dropped++;
+      }
+    });
+    if (!this.stats.paused && this.queue.length >= QUEUE_HIGH_MARK) this.sendControl('pause');
+  }
+
+  private reject(reason: string) {
+    this.stats.rejected++;
+    this.stats.lastError = reason;
+  }
+
+  // Publishers that honour flow control listen for these; others keep sending and the queue drops the oldest
+  private sendControl(command: 'pause' | 'resume') {
+    const socket = this.socket;
+    this.stats.paused = command === 'pause';
+    if (!socket || socket.readyState !== WebSocket.OPEN || !this.options) return;
+    if (this.options.protocol === 'mqtt') {
+      socket.send(encodeMqtt({ type: 'publish', topic: `${this.options.topic}/control`, payload: new TextEncoder().encode(command) }));
+    } else {
+      socket.send(JSON.stringify({ control: command }));
+    }
+  }
+
+  private clearTimers() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.retryTimer = null;
+    this.pingTimer = null;
+  }
+
+  private setStatus(status: FeedStatus, retryInMs: number | null) {
+    this.status = status;
+    this.listeners.forEach(listener => listener({ type: 'status', status, retryInMs }));
+  }
+}
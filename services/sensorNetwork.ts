@@ -0,0 +1,117 @@
+
+import { AddressLayout, Field, FieldSensor, FieldZone, SensorLocation, SensorNode } from '../types';
+import { ADDRESS_SPACE, SENSOR_UNITS } from '../constants';
+
+const SENSOR_TYPES = Object.keys(SENSOR_UNITS);
+const FIELD_NAMES = ['North Field', 'South Field'];
+const ZONES_PER_FIELD = 4;
+const ZONE_COUNT = FIELD_NAMES.length * ZONES_PER_FIELD;
+
+/**
+ * The physical field behind the address space. Fields are split into zones,
+ * zones hold nodes, and each node carries one sensor of every type. Every
+ * sensor owns a fixed set of addresses that hold its most recent readings:
+ *
+ * - Ring buffers: each sensor gets one contiguous run of addresses, so
+ *   neighbouring addresses are the same sensor at successive times.
+ * - Type arrays: sensors of one type share a region laid out row by row, so
+ *   neighbouring addresses are different sensors of that type at the same
+ *   history slot. Leftover addresses at the end of a region are spare.
+ */
+export class SensorNetwork {
+  readonly layout: AddressLayout;
+  readonly fields: Field[];
+  readonly zones: FieldZone[];
+  readonly nodes: SensorNode[];
+  readonly sensors: FieldSensor[];
+  private slots: number[][] = []; // slots[sensor][slot] = address
+  private owners: ({ sensorId: number; slot: number } | null)[] = new Array(ADDRESS_SPACE).fill(null);
+
+  constructor(sensorCount: number, layout: AddressLayout) {
+    if (!Number.isInteger(sensorCount) || sensorCount < 1 || sensorCount > ADDRESS_SPACE) {
+      throw new Error(`sensorCount must be an integer between 1 and ${ADDRESS_SPACE}`);
+    }
+    this.layout = layout;
+
+    const nodeCount = Math.ceil(sensorCount / SENSOR_TYPES.length);
+    const zoneCount = Math.min(ZONE_COUNT, nodeCount);
+    const fieldCount = Math.ceil(zoneCount / ZONES_PER_FIELD);
+
+    this.fields = Array.from({ length: fieldCount }, (_, id) => ({ id, name: FIELD_NAMES[id], zoneIds: [] }));
+    this.zones = Array.from({ length: zoneCount }, (_, id) => {
+      const fieldId = Math.floor((id * fieldCount) / zoneCount);
+      this.fields[fieldId].zoneIds.push(id);
+      return { id, name: `Zone ${String.fromCharCode(65 + id)}`, fieldId, nodeIds: [] };
+    });
+    this.nodes = Array.from({ length: nodeCount }, (_, id) => {
+      const zoneId = Math.floor((id * zoneCount) / nodeCount);
+      this.zones[zoneId].nodeIds.push(id);
+      return { id, name: `Node ${id + 1}`, zoneId, sensorIds: [] };
+    });
+
+    if (layout === AddressLayout.RING_BUFFER) this.layOutRings(sensorCount);
+    else this.layOutTypeArrays(sensorCount);
+
+    this.sensors = this.slots.map((addresses, id) => {
+      const nodeId = Math.floor(id / SENSOR_TYPES.length);
+      this.nodes[nodeId].sensorIds.push(id);
+      addresses.forEach((address, slot) => (this.owners[address] = { sensorId: id, slot }));
+      return { id, type: SENSOR_TYPES[id % SENSOR_TYPES.length], nodeId, depth: addresses.length };
+    });
+  }
+
+  /** Address of a sensor's history slot; slots past the depth wrap around like a ring. */
+  addressOf(sensorId: number, slot: number): number {
+    const addresses = this.slots[sensorId];
+    return addresses[slot % addresses.length];
+  }
+
+  /** Who owns an address, or null for spare and out-of-range addresses. */
+  locate(address: number): SensorLocation | null {
+    const owner = this.owners[address];
+    if (!owner) return null;
+    const sensor = this.sensors[owner.sensorId];
+    const node = this.nodes[sensor.nodeId];
+    const zone = this.zones[node.zoneId];
+    return { sensor, node, zone, field: this.fields[zone.fieldId], slot: owner.slot };
+  }
+
+  /** Distinct nodes owning any address in [start, end], in address order. */
+  nodesIn(start: number, end: number): SensorNode[] {
+    const found = new Set<SensorNode>();
+    for (let address = start; address <= end; address++) {
+      const location = this.locate(address);
+      if (location) found.add(location.node);
+    }
+    return [...found];
+  }
+
+  sensorsInZone(zoneId: number): number[] {
+    return this.zones[zoneId].nodeIds.flatMap(nodeId => this.nodes[nodeId].sensorIds);
+  }
+
+  private layOutRings(sensorCount: number) {
+    for (let id = 0; id < sensorCount; id++) {
+      const start = Math.floor((id * ADDRESS_SPACE) / sensorCount);
+      const end = Math.floor(((id + 1) * ADDRESS_SPACE) / sensorCount);
+      this.slots.push(Array.from({ length: end - start }, (_, slot) => start + slot));
+    }
+  }
+
+  private layOutTypeArrays(sensorCount: number) {
+    const ids = Array.from({ length: sensorCount }, (_, id) => id);
+    let placed = 0;
+    SENSOR_TYPES.forEach((_, typeIndex) => {
+      const members = ids.filter(id => id % SENSOR_TYPES.length === typeIndex);
+      if (members.length === 0) return;
+      // Each type's region is sized by its share of the sensors, so every sensor keeps at least one slot
+      const start = Math.floor((placed * ADDRESS_SPACE) / sensorCount);
+      placed += members.length;
+      const end = Math.floor((placed * ADDRESS_SPACE) / sensorCount);
+      const depth = Math.floor((end - start) / members.length);
+      members.forEach((id, column) => {
+        this.slots[id] = Array.from({ length: depth }, (_, row) => start + row * members.length + column);
+      });
+    });
+  }
+}
@@ -0,0 +1,61 @@
+
+import { SavedSession, SessionSummary } from '../types';
+
+const INDEX_KEY = 'agricache:sessions';
+const ACTIVE_KEY = 'agricache:active-session';
+const sessionKey = (id: string) => `agricache:session:${id}`;
+
+// Older readings are dropped from the saved trace so one session cannot fill the browser's quota
+export const MAX_SAVED_TRACE = 5000;
+
+const storage = (): Storage | null => (typeof localStorage === 'undefined' ? null : localStorage);
+
+const readJson = <T>(key: string): T | null => {
+  const raw = storage()?.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const createSessionId = (): string =>
+  `${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36).padStart(4, '0')}`;
+
+/** Saved sessions, most recently saved first. */
+export const listSessions = (): SessionSummary[] =>
+  (readJson<SessionSummary[]>(INDEX_KEY) ?? []).sort((a, b) => b.savedAt - a.savedAt);
+
+export const loadSession = (id: string | null): SavedSession | null => {
+  if (!id) return null;
+  const session = readJson<SavedSession>(sessionKey(id));
+  // Anything that does not look like a session (hand edits, older formats) is ignored
+  return session && session.id === id && session.settings && Array.isArray(session.accessHistory) ? session : null;
+};
+
+/** Writes the session and makes it the active one. Returns false when the browser refused (e.g. quota exceeded). */
+export const saveSession = (session: SavedSession): boolean => {
+  const store = storage();
+  if (!store) return false;
+  const trimmed = { ...session, sessionTrace: session.sessionTrace.slice(-MAX_SAVED_TRACE) };
+  const summary: SessionSummary = { id: session.id, name: session.name, savedAt: session.savedAt };
+  try {
+    store.setItem(sessionKey(session.id), JSON.stringify(trimmed));
+    store.setItem(INDEX_KEY, JSON.stringify([summary, ...listSessions().filter(s => s.id !== session.id)]));
+    store.setItem(ACTIVE_KEY, session.id);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const deleteSession = (id: string) => {
+  const store = storage();
+  if (!store) return;
+  store.removeItem(sessionKey(id));
+  store.setItem(INDEX_KEY, JSON.stringify(listSessions().filter(s => s.id !== id)));
+  if (store.getItem(ACTIVE_KEY) === id) store.removeItem(ACTIVE_KEY);
+};
+
+export const getActiveSessionId = (): string | null => storage()?.getItem(ACTIVE_KEY) ?? null;
@@ -0,0 +1,262 @@
+
+import {
+  AddressLayout, CacheConfig, CacheLevelConfig, CoherenceConfig, CoherenceProtocol, EnergyCosts, FreshnessMode,
+  LatencyConfig, LatencyDistribution, TierLatency, InclusionPolicy, MappingType, PrefetcherType, ReplacementPolicy, SessionSettings,
+  WorkloadConfig, WorkloadModel, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+import { BLOCK_SIZES, CACHE_SIZES, GATEWAY_COUNTS, GATEWAY_SIZES, SENSOR_UNITS } from '../constants';
+import { WorkloadGenerator } from './workloadGenerator';
+
+/*
+ * A scenario link carries the setup and the traffic seed, never the cache
+ * contents, so it stays short enough to paste in a chat:
+ *
+ *   #c=8_d_lru_1_wb_wa_42_none&g=32_4_lru_wb_wa_nine_42&w=zipf_42_48_ring_0.7_1.2_1_0.05_12&f=expire_1800_600_900&e=0.5_0.8_15_5_120&h=2_mesi&l=fix_1_0_norm_10_2_tail_100_80_42
+ *
+ * c = shelf: size, mapping, policy, block size, write hit, write miss, seed, prefetcher
+ * g = gateway (optional): size, mapping, policy, write hit, write miss, inclusion, seed
+ * w = traffic: model, seed, sensors, address layout, write ratio, skew, stride, burst chance, burst length
+ * f = shelf freshness (optional, off when absent): mode, then seconds to live per sensor type
+ * e = energy per event in microjoules (optional, defaults when absent): shelf hit, shelf miss, warehouse access, save, radio
+ * h = gateways sharing the field (optional, defaults when absent): count, protocol
+ * l = response times (optional, defaults when absent): spread, mean ms and deviation ms for the
+ *     shelf, gateway and warehouse in turn, then the seed they are drawn with
+ */
+
+const MAPPING_CODES: Record<MappingType, string> = {
+  [MappingType.DIRECT]: 'd',
+  [MappingType.TWO_WAY]: '2',
+  [MappingType.FOUR_WAY]: '4',
+  [MappingType.EIGHT_WAY]: '8',
+  [MappingType.FULLY_ASSOCIATIVE]: 'f'
+};
+
+const POLICY_CODES: Record<ReplacementPolicy, string> = {
+  [ReplacementPolicy.LRU]: 'lru',
+  [ReplacementPolicy.FIFO]: 'fifo',
+  [ReplacementPolicy.LFU]: 'lfu',
+  [ReplacementPolicy.RANDOM]: 'rnd',
+  [ReplacementPolicy.PLRU]: 'plru',
+  [ReplacementPolicy.OPT]: 'opt'
+};
+
+const WRITE_HIT_CODES: Record<WriteHitPolicy, string> = {
+  [WriteHitPolicy.WRITE_BACK]: 'wb',
+  [WriteHitPolicy.WRITE_THROUGH]: 'wt'
+};
+
+const WRITE_MISS_CODES: Record<WriteMissPolicy, string> = {
+  [WriteMissPolicy.WRITE_ALLOCATE]: 'wa',
+  [WriteMissPolicy.NO_WRITE_ALLOCATE]: 'nwa'
+};
+
+const INCLUSION_CODES: Record<InclusionPolicy, string> = {
+  [InclusionPolicy.INCLUSIVE]: 'inc',
+  [InclusionPolicy.EXCLUSIVE]: 'exc',
+  [InclusionPolicy.NINE]: 'nine'
+};
+
+const MODEL_CODES: Record<WorkloadModel, string> = {
+  [WorkloadModel.ROUND_ROBIN]: 'rr',
+  [WorkloadModel.ZIPF]: 'zipf',
+  [WorkloadModel.SWEEP]: 'sweep',
+  [WorkloadModel.IRRIGATION]: 'irr'
+};
+
+const LAYOUT_CODES: Record<AddressLayout, string> = {
+  [AddressLayout.RING_BUFFER]: 'ring',
+  [AddressLayout.TYPE_ARRAYS]: 'type'
+};
+
+const PREFETCH_CODES: Record<PrefetcherType, string> = {
+  [PrefetcherType.NONE]: 'none',
+  [PrefetcherType.NEXT_LINE]: 'next',
+  [PrefetcherType.STRIDE]: 'stride',
+  [PrefetcherType.SCHEDULE]: 'sched'
+};
+
+const FRESHNESS_CODES: Record<FreshnessMode, string> = {
+  [FreshnessMode.OFF]: 'off',
+  [FreshnessMode.EXPIRE]: 'expire',
+  [FreshnessMode.REFRESH_AHEAD]: 'ahead'
+};
+
+const PROTOCOL_CODES: Record<CoherenceProtocol, string> = {
+  [CoherenceProtocol.MSI]: 'msi',
+  [CoherenceProtocol.MESI]: 'mesi'
+};
+
+const DISTRIBUTION_CODES: Record<LatencyDistribution, string> = {
+  [LatencyDistribution.FIXED]: 'fix',
+  [LatencyDistribution.NORMAL]: 'norm',
+  [LatencyDistribution.LONG_TAIL]: 'tail'
+};
+
+const SENSOR_TYPES = Object.keys(SENSOR_UNITS);
+const LATENCY_TIERS = ['shelf', 'gateway', 'warehouse'] as const;
+
+const decodeCode = <T extends string>(codes: Record<T, string>, code: string): T => {
+  const match = (Object.keys(codes) as T[]).find(key => codes[key] === code);
+  if (match === undefined) throw new Error(`unknown code "${code}"`);
+  return match;
+};
+
+const decodeNumber = (value: string, allowed?: number[]): number => {
+  const n = Number(value);
+  if (value === '' || !Number.isFinite(n) || (allowed && !allowed.includes(n))) throw new Error(`bad number "${value}"`);
+  return n;
+};
+
+const decodeTier = (distribution: string, mean: string, deviation: string): TierLatency => {
+  const tier = { distribution: decodeCode(DISTRIBUTION_CODES, distribution), mean: decodeNumber(mean), deviation: decodeNumber(deviation) };
+  if (tier.mean < 0 || tier.deviation < 0) throw new Error('response times cannot be negative');
+  return tier;
+};
+
+const decodeSeed = (value: string): number => {
+  const seed = decodeNumber(value);
+  if (!Number.isInteger(seed) || seed < 0) throw new Error(`bad seed "${value}"`);
+  return seed;
+};
+
+// '_' never appears in a written number, unlike '-' in 1e-7; links made before the
+// switch have no '_' and still split on '-'
+const FIELD_SEPARATOR = '_';
+
+const fields = (value: string, count: number): string[] => {
+  const parts = value.split(value.includes(FIELD_SEPARATOR) ? FIELD_SEPARATOR : '-');
+  if (parts.length !== count) throw new Error(`expected ${count} fields`);
+  return parts;
+};
+
+export const encodeShareLink = ({ cache, gateway, workload, energyCosts, coherence, latency }: SessionSettings): string => {
+  const params = new URLSearchParams();
+  params.set('c', [
+    cache.size, MAPPING_CODES[cache.mapping], POLICY_CODES[cache.policy], cache.blockSize,
+    WRITE_HIT_CODES[cache.writeHitPolicy], WRITE_MISS_CODES[cache.writeMissPolicy], cache.seed,
+    PREFETCH_CODES[cache.prefetcher ?? PrefetcherType.NONE]
+  ].join(FIELD_SEPARATOR));
+  if (gateway) {
+    params.set('g', [
+      gateway.size, MAPPING_CODES[gateway.mapping], POLICY_CODES[gateway.policy],
+      WRITE_HIT_CODES[gateway.writeHitPolicy], WRITE_MISS_CODES[gateway.writeMissPolicy],
+      INCLUSION_CODES[gateway.inclusion], gateway.seed
+    ].join(FIELD_SEPARATOR));
+  }
+  params.set('w', [
+    MODEL_CODES[workload.model], workload.seed, workload.sensorCount, LAYOUT_CODES[workload.layout], workload.writeRatio,
+    workload.skew, workload.stride, workload.burstChance, workload.burstLength
+  ].join(FIELD_SEPARATOR));
+  if (cache.freshness && cache.freshness.mode !== FreshnessMode.OFF) {
+    const { mode, ttl } = cache.freshness;
+    params.set('f', [FRESHNESS_CODES[mode], ...SENSOR_TYPES.map(type => ttl[type] ?? 0)].join(FIELD_SEPARATOR));
+  }
+  const { cacheHit, cacheMiss, memoryAccess, writeBack, radio } = energyCosts;
+  params.set('e', [cacheHit, cacheMiss, memoryAccess, writeBack, radio].join(FIELD_SEPARATOR));
+  params.set('h', [coherence.gateways, PROTOCOL_CODES[coherence.protocol]].join(FIELD_SEPARATOR));
+  params.set('l', [
+    ...LATENCY_TIERS.flatMap(key => [DISTRIBUTION_CODES[latency[key].distribution], latency[key].mean, latency[key].deviation]),
+    latency.seed
+  ].join(FIELD_SEPARATOR));
+  return params.toString();
+};
+
+/**
+ * Settings described by a link hash, on top of `base` for everything a link
+ * does not carry. Returns null when the hash holds no scenario or any part of
+ * it is malformed; a half-applied link would be worse than none.
+ */
+export const decodeShareLink = (hash: string, base: SessionSettings, gatewayBase: CacheLevelConfig): SessionSettings | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const c = params.get('c');
+  const w = params.get('w');
+  if (!c || !w) return null;
+
+  try {
+    const [size, mapping, policy, blockSize, writeHit, writeMiss, seed, prefetcher] = fields(c, 8);
+    const cache: CacheConfig = {
+      size: decodeNumber(size, CACHE_SIZES),
+      mapping: decodeCode(MAPPING_CODES, mapping),
+      policy: decodeCode(POLICY_CODES, policy),
+      blockSize: decodeNumber(blockSize, BLOCK_SIZES),
+      writeHitPolicy: decodeCode(WRITE_HIT_CODES, writeHit),
+      writeMissPolicy: decodeCode(WRITE_MISS_CODES, writeMiss),
+      seed: decodeSeed(seed),
+      prefetcher: decodeCode(PREFETCH_CODES, prefetcher)
+    };
+    const f = params.get('f');
+    if (f) {
+      const [mode, ...ttls] = fields(f, 1 + SENSOR_TYPES.length);
+      cache.freshness = {
+        mode: decodeCode(FRESHNESS_CODES, mode),
+        ttl: Object.fromEntries(SENSOR_TYPES.map((type, i) => [type, decodeNumber(ttls[i])]))
+      };
+    }
+    // OPT needs the future and cannot drive the live view
+    if (cache.policy === ReplacementPolicy.OPT) throw new Error('OPT cannot run live');
+
+    let gateway: CacheLevelConfig | null = null;
+    const g = params.get('g');
+    if (g) {
+      const [gSize, gMapping, gPolicy, gWriteHit, gWriteMiss, gInclusion, gSeed] = fields(g, 7);
+      gateway = {
+        ...gatewayBase,
+        size: decodeNumber(gSize, GATEWAY_SIZES),
+        mapping: decodeCode(MAPPING_CODES, gMapping),
+        policy: decodeCode(POLICY_CODES, gPolicy),
+        writeHitPolicy: decodeCode(WRITE_HIT_CODES, gWriteHit),
+        writeMissPolicy: decodeCode(WRITE_MISS_CODES, gWriteMiss),
+        inclusion: decodeCode(INCLUSION_CODES, gInclusion),
+        seed: decodeSeed(gSeed)
+      };
+      if (gateway.policy === ReplacementPolicy.OPT) throw new Error('OPT cannot run live');
+    }
+
+    const [model, wSeed, sensorCount, layout, writeRatio, skew, stride, burstChance, burstLength] = fields(w, 9);
+    const workload: WorkloadConfig = {
+      model: decodeCode(MODEL_CODES, model),
+      seed: decodeSeed(wSeed),
+      sensorCount: decodeNumber(sensorCount),
+      layout: decodeCode(LAYOUT_CODES, layout),
+      writeRatio: decodeNumber(writeRatio),
+      skew: decodeNumber(skew),
+      stride: decodeNumber(stride),
+      burstChance: decodeNumber(burstChance),
+      burstLength: decodeNumber(burstLength)
+    };
+    new WorkloadGenerator(workload); // throws on out-of-range parameters
+
+    let energyCosts: EnergyCosts = base.energyCosts;
+    const e = params.get('e');
+    if (e) {
+      const costs = fields(e, 5).map(value => decodeNumber(value));
+      if (costs.some(cost => cost < 0)) throw new Error('energy costs cannot be negative');
+      const [cacheHit, cacheMiss, memoryAccess, writeBack, radio] = costs;
+      energyCosts = { cacheHit, cacheMiss, memoryAccess, writeBack, radio };
+    }
+
+    let coherence: CoherenceConfig = base.coherence;
+    const h = params.get('h');
+    if (h) {
+      const [gateways, protocol] = fields(h, 2);
+      coherence = { gateways: decodeNumber(gateways, GATEWAY_COUNTS), protocol: decodeCode(PROTOCOL_CODES, protocol) };
+    }
+
+    let latency: LatencyConfig = base.latency;
+    const l = params.get('l');
+    if (l) {
+      const parts = fields(l, LATENCY_TIERS.length * 3 + 1);
+      const seed = decodeSeed(parts[parts.length - 1]);
+      latency = {
+        shelf: decodeTier(parts[0], parts[1], parts[2]),
+        gateway: decodeTier(parts[3], parts[4], parts[5]),
+        warehouse: decodeTier(parts[6], parts[7], parts[8]),
+        seed
+      };
+    }
+
+    return { ...base, cache, gateway, workload, energyCosts, coherence, latency };
+  } catch {
+    return null;
+  }
+};
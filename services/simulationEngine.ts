@@ -1,83 +1,362 @@
 
-import { MappingType, ReplacementPolicy, CacheBlock, SensorData, SimulationResult } from '../types';
+import { 
+  MappingType, ReplacementPolicy, CacheBlock, SensorData, SimulationResult, AddressBreakdown,
+  AccessKind, CacheConfig, WriteHitPolicy, WriteMissPolicy, MissType, MissBreakdown,
+  PrefetcherType, FreshnessConfig, FreshnessMode
+} from '../types';
+import { ADDRESS_BITS } from '../constants';
+import { ReplacementStrategy, createReplacementStrategy } from './replacementPolicies';
+import { MissClassifier } from './missClassifier';
+import { Prefetcher, createPrefetcher } from './prefetchers';
+
+const WAYS_BY_MAPPING: Record<MappingType, number> = {
+  [MappingType.DIRECT]: 1,
+  [MappingType.TWO_WAY]: 2,
+  [MappingType.FOUR_WAY]: 4,
+  [MappingType.EIGHT_WAY]: 8,
+  [MappingType.FULLY_ASSOCIATIVE]: Infinity
+};
+
+// Share of its time-to-live after which a hit also refreshes a line, in refresh-ahead mode
+export const REFRESH_AHEAD_AT = 0.8;
+
+export interface LineFill {
+  cache: CacheBlock[];
+  replacedId: number;
+  evicted: CacheBlock | null;
+  evictedAddress: number | null;
+  victimReason: string;
+}
 
 export class CacheSimulationEngine {
   private size: number;
   private mapping: MappingType;
   private policy: ReplacementPolicy;
+  private seed: number;
+  private blockSize: number;
+  private writeHitPolicy: WriteHitPolicy;
+  private writeMissPolicy: WriteMissPolicy;
+  private ways: number;
+  private numSets: number;
+  private strategy: ReplacementStrategy;
+  private classifier: MissClassifier;
+  private prefetcher: Prefetcher | null;
+  private pollutedLines = new Set<number>(); // lines a prefetch pushed out that have not been demanded since
+  private freshness: FreshnessConfig | null;
+  private now = 0; // wall-clock ms of the latest access, stamped on every line it stores
   private counter: number = 0;
 
-  constructor(size: number, mapping: MappingType, policy: ReplacementPolicy) {
-    this.size = size;
-    this.mapping = mapping;
-    this.policy = policy;
+  /** `futureTrace` lists every upcoming address and is only needed by the OPT policy. */
+  constructor(config: CacheConfig, futureTrace: number[] = []) {
+    this.size = config.size;
+    this.mapping = config.mapping;
+    this.policy = config.policy;
+    this.seed = config.seed;
+    this.blockSize = config.blockSize;
+    this.writeHitPolicy = config.writeHitPolicy;
+    this.writeMissPolicy = config.writeMissPolicy;
+    this.ways = CacheSimulationEngine.getWays(config.mapping, config.size);
+    this.numSets = config.size / this.ways;
+    this.strategy = createReplacementStrategy(
+      config.policy,
+      { numSets: this.numSets, ways: this.ways },
+      { blockSize: config.blockSize, seed: config.seed, futureTrace }
+    );
+    this.classifier = new MissClassifier(config.size);
+    this.prefetcher = createPrefetcher(config.prefetcher ?? PrefetcherType.NONE, config.blockSize);
+    this.freshness = config.freshness && config.freshness.mode !== FreshnessMode.OFF ? config.freshness : null;
+  }
+
+  get isWriteBack(): boolean {
+    return this.writeHitPolicy === WriteHitPolicy.WRITE_BACK;
+  }
+
+  /** `now` (wall-clock ms) only matters when freshness is tracked; without it nothing ever ages. */
+  access(address: number, data: SensorData | null, currentCache: CacheBlock[], kind: AccessKind = AccessKind.READ, now = 0): SimulationResult {
+    this.counter++;
+    this.now = now;
+    const breakdown = this.decompose(address);
+    const isWrite = kind === AccessKind.WRITE;
+    const writeBackOnHit = this.isWriteBack;
+    const setIndices = this.getSetIndices(breakdown.index);
+    const lineAddress = Math.floor(address / this.blockSize);
+    this.strategy.onAccess(lineAddress);
+
+    const hitIndex = setIndices.find(idx => currentCache[idx].tag === breakdown.tag);
+    // A new reading replaces an old one, so only reads can find their line expired
+    const lifeUsed = hitIndex !== undefined ? this.lifeUsed(currentCache[hitIndex], now, data) : 0;
+    const expired = !isWrite && lifeUsed >= 1;
+    // An expired line is resident, so it is not one of the three Cs
+    const missType = this.classifier.classify(lineAddress, hitIndex !== undefined);
+    const pollutionMiss = hitIndex === undefined && this.pollutedLines.has(lineAddress);
+    this.pollutedLines.delete(lineAddress);
+
+    if (hitIndex !== undefined && expired) {
+      // Too old to serve: drop the copy (saving it first if changed) and read the line again into the same slot
+      this.strategy.onFill(breakdown.index, hitIndex - setIndices[0]);
+      const block = currentCache[hitIndex];
+      const newCache = [...currentCache];
+      newCache[hitIndex] = {
+        ...block, data, lastUsed: this.counter, insertedAt: this.counter, isDirty: false, prefetched: false, storedAt: now
+      };
+      return {
+        hit: false,
+        kind,
+        replacedId: hitIndex,
+        writeBack: block.isDirty,
+        evictedAddress: this.getAddressRange(block)!.start,
+        victimReason: 'Reading expired',
+        memoryWrite: false,
+        missType,
+        prefetchHit: false,
+        pollutionMiss: false,
+        staleHitAvoided: true,
+        refreshed: false,
+        cache: newCache,
+        breakdown
+      };
+    }
+
+    if (hitIndex !== undefined) {
+      // Hit
+      this.strategy.onHit(breakdown.index, hitIndex - setIndices[0]);
+      const block = currentCache[hitIndex];
+      // A changed line holds the newest reading there is; only clean lines are worth refreshing
+      const refreshed = !isWrite && !block.isDirty && this.freshness?.mode === FreshnessMode.REFRESH_AHEAD && lifeUsed >= REFRESH_AHEAD_AT;
+      const newCache = [...currentCache];
+      newCache[hitIndex] = isWrite
+        ? { ...block, data, lastUsed: this.counter, isDirty: block.isDirty || writeBackOnHit, prefetched: false, storedAt: now }
+        : { ...block, lastUsed: this.counter, prefetched: false, storedAt: refreshed ? now : block.storedAt };
+      return {
+        hit: true,
+        kind,
+        replacedId: null,
+        writeBack: false,
+        evictedAddress: null,
+        victimReason: null,
+        memoryWrite: isWrite && !writeBackOnHit,
+        missType,
+        prefetchHit: block.prefetched === true,
+        pollutionMiss,
+        staleHitAvoided: false,
+        refreshed,
+        cache: newCache,
+        breakdown
+      };
+    }
+
+    if (isWrite && this.writeMissPolicy === WriteMissPolicy.NO_WRITE_ALLOCATE) {
+      // Write around the cache: main memory takes the reading, no slot is filled
+      return {
+        hit: false,
+        kind,
+        replacedId: null,
+        writeBack: false,
+        evictedAddress: null,
+        victimReason: null,
+        memoryWrite: true,
+        missType,
+        prefetchHit: false,
+        pollutionMiss,
+        staleHitAvoided: false,
+        refreshed: false,
+        cache: currentCache,
+        breakdown
+      };
+    }
+
+    // Miss - Replacement logic
+    const fill = this.place(breakdown, data, currentCache, isWrite && writeBackOnHit);
+    return {
+      hit: false,
+      kind,
+      replacedId: fill.replacedId,
+      writeBack: fill.evicted !== null && fill.evicted.isDirty,
+      evictedAddress: fill.evictedAddress,
+      victimReason: fill.victimReason,
+      memoryWrite: isWrite && !writeBackOnHit,
+      missType,
+      prefetchHit: false,
+      pollutionMiss,
+      staleHitAvoided: false,
+      refreshed: false,
+      cache: fill.cache,
+      breakdown
+    };
+  }
+
+  /** Slot currently holding the line for `address`, or null when it is not cached. */
+  probe(address: number, currentCache: CacheBlock[]): number | null {
+    const { index, tag } = this.decompose(address);
+    return this.getSetIndices(index).find(idx => currentCache[idx].tag === tag) ?? null;
+  }
+
+  /** Drops the line holding `address`. The removed block is returned so dirty data can be flushed. */
+  invalidate(address: number, currentCache: CacheBlock[]): { cache: CacheBlock[]; removed: CacheBlock | null } {
+    const slot = this.probe(address, currentCache);
+    if (slot === null) return { cache: currentCache, removed: null };
+
+    const newCache = [...currentCache];
+    newCache[slot] = { id: slot, tag: null, data: null, lastUsed: 0, insertedAt: 0, isDirty: false, prefetched: false, storedAt: 0 };
+    return { cache: newCache, removed: currentCache[slot] };
+  }
+
+  /** Places a line that was not demanded by this level, e.g. a victim moving down an exclusive hierarchy. */
+  insert(address: number, data: SensorData | null, currentCache: CacheBlock[], isDirty: boolean): LineFill {
+    this.counter++;
+    return this.place(this.decompose(address), data, currentCache, isDirty);
+  }
+
+  /** Addresses this level's prefetcher wants after the demand access that produced `result`. */
+  prefetchTargets(address: number, data: SensorData | null, result: SimulationResult): number[] {
+    if (!this.prefetcher) return [];
+    return this.prefetcher.onAccess({ address, sensorId: data?.id ?? null, hit: result.hit, prefetchHit: result.prefetchHit });
   }
 
-  access(address: number, data: SensorData, currentCache: CacheBlock[]): SimulationResult {
+  /**
+   * Places a prefetched line, marked as such until its first demand access.
+   * A demand line it pushes out is remembered so a later miss on it can be
+   * blamed on the prefetch.
+   */
+  prefetch(address: number, data: SensorData | null, currentCache: CacheBlock[], isDirty: boolean): LineFill {
     this.counter++;
-    const tag = Math.floor(address / this.size);
-    
-    if (this.mapping === MappingType.DIRECT) {
-      const index = address % this.size;
-      const block = currentCache[index];
-
-      if (block.tag === tag) {
-        // Hit
-        const newCache = [...currentCache];
-        newCache[index] = { ...block, lastUsed: this.counter };
-        return { hit: true, replacedId: null, cache: newCache };
-      } else {
-        // Miss
-        const newCache = [...currentCache];
-        newCache[index] = {
-          ...block,
-          tag,
-          data,
-          lastUsed: this.counter,
-          insertedAt: this.counter
-        };
-        return { hit: false, replacedId: index, cache: newCache };
-      }
-    } else {
-      // 2-way Set Associative
-      const numSets = this.size / 2;
-      const setIndex = address % numSets;
-      const setIndices = [setIndex * 2, setIndex * 2 + 1];
-      
-      const hitIndex = setIndices.find(idx => currentCache[idx].tag === tag);
-
-      if (hitIndex !== undefined) {
-        // Hit
-        const newCache = [...currentCache];
-        newCache[hitIndex] = { ...currentCache[hitIndex], lastUsed: this.counter };
-        return { hit: true, replacedId: null, cache: newCache };
-      } else {
-        // Miss - Replacement logic
-        let replaceIndex: number;
-        
-        if (this.policy === ReplacementPolicy.LRU) {
-          replaceIndex = currentCache[setIndices[0]].lastUsed < currentCache[setIndices[1]].lastUsed 
-            ? setIndices[0] 
-            : setIndices[1];
-        } else {
-          // FIFO
-          replaceIndex = currentCache[setIndices[0]].insertedAt < currentCache[setIndices[1]].insertedAt 
-            ? setIndices[0] 
-            : setIndices[1];
-        }
-
-        const newCache = [...currentCache];
-        newCache[replaceIndex] = {
-          id: replaceIndex,
-          tag,
-          data,
-          lastUsed: this.counter,
-          insertedAt: this.counter,
-          isDirty: false
-        };
-        return { hit: false, replacedId: replaceIndex, cache: newCache };
-      }
+    const fill = this.place(this.decompose(address), data, currentCache, isDirty, true);
+    if (fill.evicted && fill.evictedAddress !== null && !fill.evicted.prefetched) {
+      this.pollutedLines.add(Math.floor(fill.evictedAddress / this.blockSize));
     }
+    return fill;
+  }
+
+  /**
+   * Applies a write arriving from the level above. A write-back level keeps
+   * it as dirty data; otherwise (or when the line is absent) it has to travel
+   * on to the next level.
+   */
+  absorbWrite(address: number, data: SensorData | null, currentCache: CacheBlock[]): { cache: CacheBlock[]; forward: boolean } {
+    const slot = this.probe(address, currentCache);
+    if (slot === null) return { cache: currentCache, forward: true };
+
+    const newCache = [...currentCache];
+    newCache[slot] = { ...currentCache[slot], data, isDirty: currentCache[slot].isDirty || this.isWriteBack };
+    return { cache: newCache, forward: !this.isWriteBack };
+  }
+
+  /**
+   * How much of its time-to-live the reading in `block` has used up at `now`:
+   * 1 or more means expired. Always 0 when freshness is off or the sensor type
+   * never expires. The time-to-live is that of `data`, the reading being
+   * asked for, when given, and otherwise of the reading the block holds.
+   */
+  lifeUsed(block: CacheBlock, now: number, data: SensorData | null = null): number {
+    const type = (data ?? block.data)?.type;
+    const ttl = this.freshness && type ? this.freshness.ttl[type] ?? 0 : 0;
+    return ttl > 0 ? (now - block.storedAt) / (ttl * 1000) : 0;
+  }
+
+  /**
+   * Moves the logical clock past every timestamp in `currentCache`, so contents
+   * carried over from another engine keep their age order. When `previous`
+   * (an engine of the same shape) left them, its history carries over too.
+   */
+  resumeFrom(currentCache: CacheBlock[], previous: CacheSimulationEngine | null = null) {
+    this.counter = currentCache.reduce((latest, block) => Math.max(latest, block.lastUsed, block.insertedAt), this.counter);
+    if (!previous) return;
+    this.counter = Math.max(this.counter, previous.counter);
+    // Which lines were ever seen, and the fully-associative shadow, do not depend on the policy
+    this.classifier = previous.classifier;
+    this.pollutedLines = previous.pollutedLines;
+    // Frequency counts, tree bits and the random stream only mean the same to the same policy
+    if (previous.policy === this.policy && previous.seed === this.seed) this.strategy = previous.strategy;
+  }
+
+  markDirty(address: number, currentCache: CacheBlock[]): CacheBlock[] {
+    const slot = this.probe(address, currentCache);
+    if (slot === null) return currentCache;
+
+    const newCache = [...currentCache];
+    newCache[slot] = { ...currentCache[slot], isDirty: true };
+    return newCache;
+  }
+
+  private place(
+    breakdown: AddressBreakdown,
+    data: SensorData | null,
+    currentCache: CacheBlock[],
+    isDirty: boolean,
+    prefetched = false
+  ): LineFill {
+    const setIndices = this.getSetIndices(breakdown.index);
+    const { slot: replaceIndex, reason } = this.chooseVictim(breakdown.index, setIndices, currentCache);
+    const victim = currentCache[replaceIndex];
+    this.strategy.onFill(breakdown.index, replaceIndex - setIndices[0]);
+
+    const newCache = [...currentCache];
+    newCache[replaceIndex] = {
+      id: replaceIndex,
+      tag: breakdown.tag,
+      data,
+      lastUsed: this.counter,
+      insertedAt: this.counter,
+      isDirty,
+      prefetched,
+      storedAt: this.now
+    };
+    const evicted = victim.tag !== null ? victim : null;
+    return {
+      cache: newCache,
+      replacedId: replaceIndex,
+      evicted,
+      evictedAddress: evicted ? this.getAddressRange(evicted)!.start : null,
+      victimReason: reason
+    };
+  }
+
+  private getSetIndices(setIndex: number): number[] {
+    return Array.from({ length: this.ways }, (_, way) => setIndex * this.ways + way);
+  }
+
+  /** Splits an address into tag / set index / line offset for the current geometry. */
+  decompose(address: number): AddressBreakdown {
+    const offsetBits = Math.log2(this.blockSize);
+    const indexBits = Math.log2(this.numSets);
+    const lineAddress = Math.floor(address / this.blockSize);
+
+    return {
+      address,
+      tag: Math.floor(lineAddress / this.numSets),
+      index: lineAddress % this.numSets,
+      offset: address % this.blockSize,
+      tagBits: Math.max(ADDRESS_BITS - indexBits - offsetBits, 0),
+      indexBits,
+      offsetBits
+    };
+  }
+
+  /** First and last address held by a slot, or null when the slot is empty. */
+  getAddressRange(block: CacheBlock): { start: number; end: number } | null {
+    if (block.tag === null) return null;
+    const setIndex = Math.floor(block.id / this.ways);
+    const start = (block.tag * this.numSets + setIndex) * this.blockSize;
+    return { start, end: start + this.blockSize - 1 };
+  }
+
+  private chooseVictim(setIndex: number, setIndices: number[], currentCache: CacheBlock[]): { slot: number; reason: string } {
+    // Empty slots are always filled before anything is evicted
+    const emptyIndex = setIndices.find(idx => currentCache[idx].tag === null);
+    if (emptyIndex !== undefined) return { slot: emptyIndex, reason: 'Empty slot in the set' };
+
+    const blocks = setIndices.map(idx => currentCache[idx]);
+    const way = this.strategy.chooseVictim(setIndex, blocks);
+    return { slot: setIndices[way], reason: this.strategy.explainVictim(setIndex, way, blocks) };
+  }
+
+  static emptyMissBreakdown(): MissBreakdown {
+    return { [MissType.COMPULSORY]: 0, [MissType.CAPACITY]: 0, [MissType.CONFLICT]: 0 };
+  }
+
+  /** Number of ways per set, clamped so a set never spans more slots than the cache has. */
+  static getWays(mapping: MappingType, size: number): number {
+    return Math.min(WAYS_BY_MAPPING[mapping], size);
   }
 
   static createEmptyCache(size: number): CacheBlock[] {
@@ -87,7 +366,9 @@ export class CacheSimulationEngine {
       data: null,
       lastUsed: 0,
       insertedAt: 0,
-      isDirty: false
+      isDirty: false,
+      prefetched: false,
+      storedAt: 0
     }));
   }
 }
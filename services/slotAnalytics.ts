@@ -0,0 +1,151 @@
+
+import { CacheConfig, EvictionRecord, SetActivity, SimulationEvent, SlotActivity } from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+import { SensorNetwork } from './sensorNetwork';
+
+const EVICTION_LOG_LIMIT = 200;
+
+const emptySlot = (): SlotActivity => ({ hits: 0, fills: 0, evictions: 0, residencyTotal: 0, residencies: 0 });
+
+/**
+ * Where the first level's traffic lands, slot by slot and set by set, built
+ * from the simulator's events. A set that keeps evicting lines long before
+ * they are used again is a sign the address layout maps busy sensors onto it.
+ *
+ * Counts survive reconfigurations that keep the level's shape and start over
+ * when the contents are dropped.
+ */
+export class SlotAnalytics {
+  private network: SensorNetwork;
+  private blockSize = 1;
+  private ways = 1;
+  private numSets = 1;
+  private slots: SlotActivity[] = [];
+  private filledAt: (number | null)[] = []; // per slot, when the current line arrived
+  private setLookups: { lookups: number; hits: number }[] = [];
+  private evictedTypes: Record<string, number>[] = [];
+  private evictions: EvictionRecord[] = [];
+
+  constructor(config: CacheConfig, network: SensorNetwork) {
+    this.network = network;
+    this.reset(config);
+  }
+
+  /** Evicted lines from now on are attributed to sensors in `network`. */
+  setNetwork(network: SensorNetwork) {
+    this.network = network;
+  }
+
+  /** Starts over with empty counts; lines already cached count as arrived at an unknown time. */
+  clear() {
+    this.slots = this.slots.map(emptySlot);
+    this.filledAt = this.filledAt.map(() => null);
+    this.setLookups = this.setLookups.map(() => ({ lookups: 0, hits: 0 }));
+    this.evictedTypes = this.evictedTypes.map(() => ({}));
+    this.evictions = [];
+  }
+
+  record(event: SimulationEvent) {
+    if (event.type === 'reconfigure') {
+      const level = event.config.levels[0];
+      const ways = CacheSimulationEngine.getWays(level.mapping, level.size);
+      if (event.cleared || level.size !== this.slots.length || ways !== this.ways || level.blockSize !== this.blockSize) this.reset(level);
+      return;
+    }
+    if (event.type === 'access' || event.type === 'write-back' || event.level !== 0) return;
+
+    switch (event.type) {
+      case 'hit':
+        this.slots[event.slot].hits++;
+        this.countLookup(event.address, true);
+        return;
+      case 'miss':
+        this.countLookup(event.address, false);
+        return;
+      case 'fill':
+      case 'prefetch':
+        this.slots[event.slot].fills++;
+        this.filledAt[event.slot] = event.time;
+        // The line that took an evicted line's slot in the same step replaced it
+        if (this.evictions[0]?.time === event.time && this.evictions[0].slot === event.slot && this.evictions[0].replacedBy === null) {
+          this.evictions[0] = { ...this.evictions[0], replacedBy: event.address };
+        }
+        return;
+      case 'evict': {
+        const slot = this.slots[event.slot];
+        const set = Math.floor(event.slot / this.ways);
+        const arrived = this.filledAt[event.slot];
+        const residency = arrived === null ? null : event.time - arrived;
+        const sensorType = this.network.locate(event.address)?.sensor.type ?? null;
+        slot.evictions++;
+        if (residency !== null) {
+          slot.residencyTotal += residency;
+          slot.residencies++;
+        }
+        if (sensorType) this.evictedTypes[set][sensorType] = (this.evictedTypes[set][sensorType] ?? 0) + 1;
+        this.filledAt[event.slot] = null;
+        this.evictions.unshift({
+          time: event.time,
+          slot: event.slot,
+          set,
+          address: event.address,
+          sensorType,
+          residency,
+          dirty: event.dirty,
+          expired: event.expired,
+          unusedPrefetch: event.unusedPrefetch,
+          replacedBy: null
+        });
+        if (this.evictions.length > EVICTION_LOG_LIMIT) this.evictions.pop();
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  getSlots(): SlotActivity[] {
+    return this.slots;
+  }
+
+  getSets(): SetActivity[] {
+    return this.setLookups.map((counts, set) => {
+      const slots = this.slots.slice(set * this.ways, (set + 1) * this.ways);
+      const residencyTotal = slots.reduce((sum, slot) => sum + slot.residencyTotal, 0);
+      const residencies = slots.reduce((sum, slot) => sum + slot.residencies, 0);
+      return {
+        ...counts,
+        evictions: slots.reduce((sum, slot) => sum + slot.evictions, 0),
+        averageResidency: residencies > 0 ? residencyTotal / residencies : null,
+        evictedTypes: this.evictedTypes[set]
+      };
+    });
+  }
+
+  /** The most recent evictions, newest first. */
+  getEvictions(): EvictionRecord[] {
+    return this.evictions;
+  }
+
+  get waysPerSet(): number {
+    return this.ways;
+  }
+
+  private reset(config: CacheConfig) {
+    this.blockSize = config.blockSize;
+    this.ways = CacheSimulationEngine.getWays(config.mapping, config.size);
+    this.numSets = config.size / this.ways;
+    this.slots = Array.from({ length: config.size }, emptySlot);
+    this.filledAt = new Array(config.size).fill(null);
+    this.setLookups = Array.from({ length: this.numSets }, () => ({ lookups: 0, hits: 0 }));
+    this.evictedTypes = Array.from({ length: this.numSets }, () => ({}));
+    this.evictions = [];
+  }
+
+  // Misses that allocate nothing still count against the set the address maps to
+  private countLookup(address: number, hit: boolean) {
+    const counts = this.setLookups[Math.floor(address / this.blockSize) % this.numSets];
+    counts.lookups++;
+    if (hit) counts.hits++;
+  }
+}
@@ -0,0 +1,129 @@
+
+import { SensorData } from '../types';
+
+// Rollup bucket widths, finest first
+export const ROLLUP_WIDTHS_MS = [10_000, 60_000, 600_000, 3_600_000];
+
+const MAX_RAW_PER_SENSOR = 1000;
+const MAX_BUCKETS_PER_WIDTH = 1000;
+
+export interface SeriesPoint {
+  time: number; // reading time, or bucket start for rollups
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface SeriesInfo {
+  id: number;
+  type: string;
+  unit: string;
+  count: number; // readings ever stored
+}
+
+interface SensorSeries extends SeriesInfo {
+  raw: SeriesPoint[];
+  rollups: SeriesPoint[][]; // one list per entry of ROLLUP_WIDTHS_MS
+}
+
+const addToBucket = (buckets: SeriesPoint[], start: number, value: number) => {
+  let i = buckets.length - 1;
+  // Readings arrive in time order almost always, so search backwards from the newest bucket
+  while (i >= 0 && buckets[i].time > start) i--;
+  const bucket = buckets[i];
+  if (bucket && bucket.time === start) {
+    bucket.avg += (value - bucket.avg) / (bucket.count + 1);
+    bucket.count++;
+    bucket.min = Math.min(bucket.min, value);
+    bucket.max = Math.max(bucket.max, value);
+  } else {
+    buckets.splice(i + 1, 0, { time: start, min: value, max: value, avg: value, count: 1 });
+    if (buckets.length > MAX_BUCKETS_PER_WIDTH) buckets.shift();
+  }
+};
+
+// Folds the buckets of several sensors into one bucket per start time
+const mergeBuckets = (lists: SeriesPoint[][]): SeriesPoint[] => {
+  const merged = new Map<number, SeriesPoint>();
+  lists.flat().forEach(point => {
+    const into = merged.get(point.time);
+    if (!into) {
+      merged.set(point.time, { ...point });
+      return;
+    }
+    const count = into.count + point.count;
+    into.avg = (into.avg * into.count + point.avg * point.count) / count;
+    into.count = count;
+    into.min = Math.min(into.min, point.min);
+    into.max = Math.max(into.max, point.max);
+  });
+  return [...merged.values()].sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Keeps every sensor's values independently of what the cache holds: the
+ * most recent raw readings, plus min/max/avg rollups at several widths so
+ * long time ranges stay cheap to chart.
+ */
+export class TimeSeriesStore {
+  private series = new Map<number, SensorSeries>();
+  private appended = 0;
+
+  /** Changes whenever a reading is added, for views that memoise on it. */
+  get revision(): number {
+    return this.appended;
+  }
+
+  append(sensor: SensorData, time: number) {
+    let series = this.series.get(sensor.id);
+    // A new network can hand the id to a sensor of another type; its old values would not belong on the same chart
+    if (!series || series.type !== sensor.type) {
+      series = { id: sensor.id, type: sensor.type, unit: sensor.unit, count: 0, raw: [], rollups: ROLLUP_WIDTHS_MS.map(() => []) };
+      this.series.set(sensor.id, series);
+    }
+    series.count++;
+    this.appended++;
+
+    series.raw.push({ time, min: sensor.value, max: sensor.value, avg: sensor.value, count: 1 });
+    if (series.raw.length > MAX_RAW_PER_SENSOR) series.raw.shift();
+    ROLLUP_WIDTHS_MS.forEach((width, i) => addToBucket(series.rollups[i], Math.floor(time / width) * width, sensor.value));
+  }
+
+  /** Sensors with at least one stored reading, by id. */
+  sensors(): SeriesInfo[] {
+    return [...this.series.values()]
+      .map(({ id, type, unit, count }) => ({ id, type, unit, count }))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Values of the given sensors between `from` and `to`. A single sensor comes
+   * back raw when its readings fit in `maxPoints`; otherwise, and whenever
+   * sensors are combined, the finest rollup that fits is used (the coarsest
+   * if none does). `width` is null for raw readings.
+   */
+  query(ids: number[], from: number, to: number, maxPoints: number): { points: SeriesPoint[]; width: number | null } {
+    const found = ids.map(id => this.series.get(id)).filter((s): s is SensorSeries => s !== undefined);
+    const inRange = (points: SeriesPoint[]) => points.filter(p => p.time >= from && p.time <= to);
+
+    if (found.length === 1) {
+      const raw = inRange(found[0].raw);
+      // Raw readings only go back so far; fall through to rollups when the range starts before them
+      const rawCovers = found[0].raw.length === found[0].count || (found[0].raw[0]?.time ?? Infinity) <= from;
+      if (raw.length <= maxPoints && rawCovers) return { points: raw, width: null };
+    }
+
+    let points: SeriesPoint[] = [];
+    for (const [i, width] of ROLLUP_WIDTHS_MS.entries()) {
+      points = mergeBuckets(found.map(s => inRange(s.rollups[i])));
+      if (points.length <= maxPoints) return { points, width };
+    }
+    return { points, width: ROLLUP_WIDTHS_MS[ROLLUP_WIDTHS_MS.length - 1] };
+  }
+
+  clear() {
+    this.series.clear();
+    this.appended++;
+  }
+}
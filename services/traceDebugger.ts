@@ -0,0 +1,62 @@
+
+import { CacheBlock, HierarchyConfig, HierarchyResult, TraceRecord } from '../types';
+import { CacheSimulationEngine } from './simulationEngine';
+import { MemoryHierarchy } from './memoryHierarchy';
+
+export interface DebugFrame {
+  step: number;             // 1-based position in the trace
+  record: TraceRecord;
+  result: HierarchyResult;  // outcome of this access, including the caches right after it
+}
+
+export interface DebugSnapshot {
+  name: string;
+  step: number;
+  caches: CacheBlock[][];
+}
+
+/**
+ * Replays a fixed trace one access at a time and keeps every intermediate
+ * state, so any step can be revisited without re-running the replacement
+ * policies backwards. Frames are computed lazily, only as far as requested.
+ */
+export class TraceDebugger {
+  private config: HierarchyConfig;
+  private trace: TraceRecord[];
+  private hierarchy: MemoryHierarchy;
+  private frames: DebugFrame[] = [];
+
+  constructor(config: HierarchyConfig, trace: TraceRecord[]) {
+    this.config = config;
+    this.trace = trace;
+    this.hierarchy = new MemoryHierarchy(config);
+  }
+
+  get length(): number {
+    return this.trace.length;
+  }
+
+  getEngine(level: number): CacheSimulationEngine {
+    return this.hierarchy.getEngine(level);
+  }
+
+  /** The access at `step`, or null for step 0 (nothing run yet) and out-of-range steps. */
+  frame(step: number): DebugFrame | null {
+    if (step < 1 || step > this.trace.length) return null;
+    while (this.frames.length < step) {
+      const record = this.trace[this.frames.length];
+      const result = this.hierarchy.access(record.sensor.address, record.sensor, this.cachesAt(this.frames.length), record.kind);
+      this.frames.push({ step: this.frames.length + 1, record, result });
+    }
+    return this.frames[step - 1];
+  }
+
+  /** Cache contents after `step` accesses. */
+  cachesAt(step: number): CacheBlock[][] {
+    return step === 0 ? MemoryHierarchy.createEmptyCaches(this.config) : this.frame(step)!.result.caches;
+  }
+
+  snapshot(name: string, step: number): DebugSnapshot {
+    return { name, step, caches: this.cachesAt(step) };
+  }
+}
@@ -0,0 +1,162 @@
+
+import { AccessKind, SensorData, TraceParseError, TraceParseResult, TraceRecord } from '../types';
+import { ADDRESS_BITS, ADDRESS_SPACE, SENSOR_UNITS } from '../constants';
+
+export const CSV_TRACE_HEADER = ['timestamp', 'sensorId', 'type', 'value', 'address', 'op'];
+
+// The sensor type of din rows, which name an address and nothing about a reading
+export const ADDRESS_ONLY_TYPE = 'Trace';
+
+// Dinero III labels: 0 data read, 1 data write, 2 instruction fetch, 3 unknown access, 4 cache flush
+const DIN_KINDS: Record<string, AccessKind> = {
+  '0': AccessKind.READ,
+  '1': AccessKind.WRITE,
+  '2': AccessKind.READ,
+  '3': AccessKind.READ
+};
+
+const parseAddress = (raw: string, radix: 10 | 16): number | null => {
+  const text = raw.trim().toLowerCase();
+  const hex = radix === 16 || text.startsWith('0x');
+  const digits = text.startsWith('0x') ? text.slice(2) : text;
+  if (!(hex ? /^[0-9a-f]+$/ : /^[0-9]+$/).test(digits)) return null;
+  return parseInt(digits, hex ? 16 : 10);
+};
+
+// Real Dinero traces hold full machine addresses; the simulated memory keeps their low ADDRESS_BITS bits
+const foldAddress = (raw: string): number => {
+  const digits = raw.trim().toLowerCase().replace(/^0x/, '');
+  return parseInt(digits.slice(-Math.ceil(ADDRESS_BITS / 4)), 16) % ADDRESS_SPACE;
+};
+
+const parseKind = (raw: string): AccessKind | null => {
+  switch (raw.trim().toLowerCase()) {
+    case 'r':
+    case 'read':
+      return AccessKind.READ;
+    case 'w':
+    case 'write':
+      return AccessKind.WRITE;
+    default:
+      return null;
+  }
+};
+
+/** Epoch milliseconds or an ISO date; clock times like "10:42:07" name no day and give null. */
+export const parseReadingTime = (raw: string): number | null => {
+  const text = raw.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  const parsed = /^\d{4}-\d{2}-\d{2}/.test(text) ? Date.parse(text) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const checkAddress = (address: number | null, raw: string): string | null => {
+  if (address === null) return `"${raw.trim()}" is not a valid address`;
+  if (address >= ADDRESS_SPACE) return `address ${raw.trim()} is outside the ${ADDRESS_SPACE}-location memory`;
+  return null;
+};
+
+/** Parses `timestamp,sensorId,type,value,address,op` rows. A header row is optional. */
+export const parseCsvTrace = (text: string): TraceParseResult => {
+  const records: TraceRecord[] = [];
+  const errors: TraceParseError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1;
+    if (rawLine.trim() === '' || rawLine.trim().startsWith('#')) return;
+
+    const cells = rawLine.split(',').map(c => c.trim());
+    if (i === 0 && cells[0].toLowerCase() === CSV_TRACE_HEADER[0]) return;
+    if (cells.length !== CSV_TRACE_HEADER.length) {
+      errors.push({ line, message: `expected ${CSV_TRACE_HEADER.length} columns, found ${cells.length}` });
+      return;
+    }
+
+    const [timestamp, rawId, type, rawValue, rawAddress, rawOp] = cells;
+    const id = Number(rawId);
+    const value = Number(rawValue);
+    const address = parseAddress(rawAddress, 10);
+    const kind = parseKind(rawOp);
+
+    let problem: string | null = null;
+    if (timestamp === '') problem = 'timestamp is empty';
+    else if (rawId === '' || !Number.isInteger(id) || id < 0) problem = `sensorId "${rawId}" is not a non-negative integer`;
+    else if (type === '') problem = 'type is empty';
+    else if (rawValue === '' || !Number.isFinite(value)) problem = `value "${rawValue}" is not a number`;
+    else if (kind === null) problem = `op "${rawOp}" must be r/read or w/write`;
+    else problem = checkAddress(address, rawAddress);
+
+    if (problem) {
+      errors.push({ line, message: problem });
+      return;
+    }
+
+    const time = parseReadingTime(timestamp);
+    records.push({
+      sensor: { id, type, value, unit: SENSOR_UNITS[type] ?? '', timestamp, address: address as number },
+      kind: kind as AccessKind,
+      ...(time !== null ? { time } : {})
+    });
+  });
+
+  return { format: 'csv', records, errors, folded: 0 };
+};
+
+/**
+ * Parses classic Dinero `din` lines: `<label> <hex address>`. They carry no
+ * sensor payload, and addresses past the simulated memory are folded into it.
+ */
+export const parseDinTrace = (text: string): TraceParseResult => {
+  const records: TraceRecord[] = [];
+  const errors: TraceParseError[] = [];
+  let folded = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1;
+    if (rawLine.trim() === '') return;
+
+    const [label, rawAddress] = rawLine.trim().split(/\s+/);
+    const kind = DIN_KINDS[label];
+    if (kind === undefined) {
+      errors.push({ line, message: label === '4' ? 'cache flush records are not supported' : `unknown access label "${label}"` });
+      return;
+    }
+    if (rawAddress === undefined) {
+      errors.push({ line, message: 'missing address' });
+      return;
+    }
+
+    const full = parseAddress(rawAddress, 16);
+    if (full === null) {
+      errors.push({ line, message: `"${rawAddress.trim()}" is not a valid address` });
+      return;
+    }
+    if (full >= ADDRESS_SPACE) folded++;
+
+    const sensor: SensorData = {
+      id: 0, type: ADDRESS_ONLY_TYPE, value: 0, unit: '', timestamp: `#${records.length + 1}`, address: foldAddress(rawAddress)
+    };
+    records.push({ sensor, kind });
+  });
+
+  return { format: 'din', records, errors, folded };
+};
+
+export const parseTrace = (fileName: string, text: string): TraceParseResult =>
+  fileName.toLowerCase().endsWith('.din') ? parseDinTrace(text) : parseCsvTrace(text);
+
+export const formatCsvTrace = (records: TraceRecord[]): string => {
+  // A known time is written in full so the trace replays on the same timeline
+  const rows = records.map(({ sensor, kind, time }) => [
+    time !== undefined ? new Date(time).toISOString() : sensor.timestamp,
+    sensor.id,
+    sensor.type,
+    sensor.value,
+    sensor.address,
+    kind === AccessKind.WRITE ? 'w' : 'r'
+  ].join(','));
+  return [CSV_TRACE_HEADER.join(','), ...rows].join('\n') + '\n';
+};
+
+export const formatDinTrace = (records: TraceRecord[]): string =>
+  records.map(({ sensor, kind }) => `${kind === AccessKind.WRITE ? 1 : 0} ${sensor.address.toString(16)}`).join('\n') + '\n';
@@ -0,0 +1,155 @@
+
+import { AccessKind, AddressLayout, SensorData, SensorLocation, TraceRecord, WorkloadConfig, WorkloadModel } from '../types';
+import { ADDRESS_SPACE, DEFAULT_SEED, SENSOR_UNITS, WRITE_RATIO } from '../constants';
+import { createRandom } from './random';
+import { SensorNetwork } from './sensorNetwork';
+
+export const DEFAULT_WORKLOAD: WorkloadConfig = {
+  model: WorkloadModel.ZIPF,
+  seed: DEFAULT_SEED,
+  sensorCount: 48,
+  layout: AddressLayout.RING_BUFFER,
+  writeRatio: WRITE_RATIO,
+  skew: 1.2,
+  stride: 1,
+  burstChance: 0.05,
+  burstLength: 12
+};
+
+// Operating range per sensor type, down to the odd frosty night so every default alert rule can fire
+export const VALUE_RANGES: Record<string, [number, number]> = {
+  Moisture: [30, 70],
+  Temperature: [1, 33],
+  Humidity: [40, 70]
+};
+
+// Soil moisture while the sprinklers of a zone are running
+export const IRRIGATED_MOISTURE: [number, number] = [70, 95];
+
+/**
+ * Produces an endless, seeded stream of sensor readings. Sensor i always
+ * belongs to the same node and reports the same type; a new reading
+ * overwrites the oldest slot of its history and a lookup fetches the latest,
+ * so the stream has the temporal and spatial locality of a real field rather
+ * than uniform noise. Two generators built from the same config produce
+ * identical streams.
+ */
+export class WorkloadGenerator {
+  readonly network: SensorNetwork;
+  private config: WorkloadConfig;
+  private random: () => number;
+  private tick = 0;
+  private cursor = 0;
+  private heads: number[]; // latest history slot written per sensor
+  private hotSensors: number[] = []; // sensor ids by popularity rank
+  private rankCdf: number[] = [];
+  private burst: { zone: number; remaining: number } | null = null;
+
+  constructor(config: WorkloadConfig) {
+    if (config.writeRatio < 0 || config.writeRatio > 1) throw new Error('writeRatio must be between 0 and 1');
+    if (!Number.isInteger(config.stride) || config.stride < 1) throw new Error('stride must be a positive integer');
+    if (config.burstChance < 0 || config.burstChance > 1) throw new Error('burstChance must be between 0 and 1');
+    if (!Number.isInteger(config.burstLength) || config.burstLength < 1) throw new Error('burstLength must be a positive integer');
+    if (config.skew < 0) throw new Error('skew must not be negative');
+
+    this.config = config;
+    this.network = new SensorNetwork(config.sensorCount, config.layout);
+    this.heads = new Array(config.sensorCount).fill(0);
+    this.random = createRandom(config.seed);
+    if (config.model === WorkloadModel.ZIPF) this.buildZipf();
+  }
+
+  next(): TraceRecord {
+    this.tick++;
+    switch (this.config.model) {
+      case WorkloadModel.ROUND_ROBIN:
+        return this.reading((this.tick - 1) % this.config.sensorCount);
+      case WorkloadModel.ZIPF:
+        return this.reading(this.hotSensors[this.pickRank()]);
+      case WorkloadModel.SWEEP:
+        return this.sweepStep();
+      case WorkloadModel.IRRIGATION:
+        return this.irrigationStep();
+    }
+  }
+
+  take(count: number): TraceRecord[] {
+    return Array.from({ length: count }, () => this.next());
+  }
+
+  private reading(id: number, irrigated = false, address?: number): TraceRecord {
+    const { type } = this.network.sensors[id];
+    // Irrigation reports are always fresh readings being stored
+    const kind = irrigated || this.random() < this.config.writeRatio ? AccessKind.WRITE : AccessKind.READ;
+    if (address === undefined) {
+      if (kind === AccessKind.WRITE) this.heads[id]++;
+      address = this.network.addressOf(id, this.heads[id]);
+    }
+
+    const [min, max] = irrigated && type === 'Moisture' ? IRRIGATED_MOISTURE : VALUE_RANGES[type];
+    const sensor: SensorData = {
+      id,
+      type,
+      value: Number((min + this.random() * (max - min)).toFixed(1)),
+      unit: SENSOR_UNITS[type],
+      timestamp: `#${this.tick}`,
+      address
+    };
+    return { sensor, kind };
+  }
+
+  // A collector walking the field's memory region address by address. Spare
+  // addresses are passed over; address 0 always has an owner and every stride
+  // cycle passes through it, so the walk always finds one.
+  private sweepStep(): TraceRecord {
+    let address: number;
+    let owner: SensorLocation | null;
+    do {
+      address = this.cursor;
+      this.cursor = (this.cursor + this.config.stride) % ADDRESS_SPACE;
+      owner = this.network.locate(address);
+    } while (!owner);
+    return this.reading(owner.sensor.id, false, address);
+  }
+
+  // Background polling of random sensors, interrupted by one zone reporting in rapid succession
+  private irrigationStep(): TraceRecord {
+    const { sensorCount, burstChance, burstLength } = this.config;
+    if (!this.burst && this.random() < burstChance) {
+      this.burst = { zone: Math.floor(this.random() * this.network.zones.length), remaining: burstLength };
+    }
+    if (!this.burst) return this.reading(Math.floor(this.random() * sensorCount));
+
+    const zoneSensors = this.network.sensorsInZone(this.burst.zone);
+    const id = zoneSensors[Math.floor(this.random() * zoneSensors.length)];
+    if (--this.burst.remaining === 0) this.burst = null;
+    return this.reading(id, true);
+  }
+
+  private buildZipf() {
+    const { sensorCount, skew } = this.config;
+    // Shuffle so the hot sensors are scattered over the field, not packed at low addresses
+    this.hotSensors = Array.from({ length: sensorCount }, (_, i) => i);
+    for (let i = sensorCount - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [this.hotSensors[i], this.hotSensors[j]] = [this.hotSensors[j], this.hotSensors[i]];
+    }
+
+    const weights = this.hotSensors.map((_, rank) => 1 / Math.pow(rank + 1, skew));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let running = 0;
+    this.rankCdf = weights.map(w => (running += w / total));
+  }
+
+  private pickRank(): number {
+    const r = this.random();
+    let lo = 0;
+    let hi = this.rankCdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.rankCdf[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
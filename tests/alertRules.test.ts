@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertEngine } from '../services/alertEngine';
+import { DEFAULT_ALERT_RULES, parseAlertRules } from '../services/alertRules';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import { AlertEvent, AlertRule, SensorData, WorkloadModel } from '../types';
+
+const reading = (type: string, value: number): SensorData => ({ id: 1, type, value, unit: '', timestamp: '', address: 0 });
+
+const DRY: AlertRule = {
+  id: 'dry', name: 'Dry', category: 'watering', severity: 'warning', when: [{ type: 'Moisture', below: 30, forSeconds: 60 }]
+};
+
+const record = (engine: AlertEngine) => {
+  const events: AlertEvent['type'][] = [];
+  engine.subscribe(event => events.push(event.type));
+  return events;
+};
+
+describe('AlertEngine', () => {
+  it('raises a sustained rule only once its condition has held long enough, and clears it when it lapses', () => {
+    const engine = new AlertEngine([DRY]);
+    const events = record(engine);
+    engine.ingest('North', reading('Moisture', 20), 0);
+    engine.ingest('North', reading('Moisture', 20), 59_000);
+    assert.equal(engine.getActive().length, 0);
+    engine.ingest('North', reading('Moisture', 20), 60_000);
+    assert.equal(engine.getActive()[0]?.node, 'North');
+    engine.ingest('North', reading('Moisture', 50), 61_000);
+    assert.deepEqual(events, ['raised', 'cleared']);
+    assert.equal(engine.getHistory().length, 1);
+  });
+
+  it('keeps nodes apart', () => {
+    const engine = new AlertEngine([DRY]);
+    engine.ingest('North', reading('Moisture', 20), 0);
+    engine.ingest('South', reading('Moisture', 20), 60_000);
+    assert.equal(engine.getActive().length, 0);
+  });
+
+  it('measures a fall within its window', () => {
+    const rule: AlertRule = { ...DRY, when: [{ type: 'Moisture', fallsBy: 25, withinSeconds: 60 }] };
+    const engine = new AlertEngine([rule]);
+    engine.ingest('North', reading('Moisture', 80), 0);
+    engine.ingest('North', reading('Moisture', 50), 90_000);
+    assert.equal(engine.getActive().length, 0);
+    engine.ingest('North', reading('Moisture', 24), 120_000);
+    assert.equal(engine.getActive().length, 1);
+  });
+
+  it('keeps a hand-cleared alert silent until its conditions lapse', () => {
+    const rule: AlertRule = { ...DRY, when: [{ type: 'Moisture', below: 30 }] };
+    const engine = new AlertEngine([rule]);
+    engine.ingest('North', reading('Moisture', 20), 0);
+    engine.clear(engine.getActive()[0].id, 1000);
+    engine.ingest('North', reading('Moisture', 20), 2000);
+    assert.equal(engine.getActive().length, 0);
+    engine.ingest('North', reading('Moisture', 50), 3000);
+    engine.ingest('North', reading('Moisture', 20), 4000);
+    assert.equal(engine.getActive().length, 1);
+  });
+
+  it('forgets samples, alerts and history on reset', () => {
+    const engine = new AlertEngine([DRY]);
+    engine.ingest('North', reading('Moisture', 20), 0);
+    engine.ingest('North', reading('Moisture', 20), 60_000);
+    engine.reset();
+    assert.deepEqual([engine.getActive(), engine.getHistory()], [[], []]);
+    engine.ingest('North', reading('Moisture', 20), 61_000);
+    assert.equal(engine.getActive().length, 0);
+  });
+});
+
+describe('default alert rules', () => {
+  it('every rule fires on generated traffic', () => {
+    const fired = new Set<string>();
+    for (const model of Object.values(WorkloadModel)) {
+      const generator = new WorkloadGenerator({ ...DEFAULT_WORKLOAD, model });
+      const engine = new AlertEngine(DEFAULT_ALERT_RULES);
+      engine.subscribe(event => {
+        if (event.type === 'raised') fired.add(event.alert.ruleId);
+      });
+      // Two seconds apart, as the dashboard spaces readings that carry no time of their own
+      generator.take(20_000).forEach(({ sensor }, i) => {
+        engine.ingest(generator.network.locate(sensor.address)?.node.name ?? `S${sensor.id}`, sensor, i * 2000);
+      });
+    }
+    assert.deepEqual(DEFAULT_ALERT_RULES.map(rule => rule.id).filter(id => !fired.has(id)), []);
+  });
+
+  it('pass their own validation', () => {
+    assert.deepEqual(parseAlertRules(JSON.stringify(DEFAULT_ALERT_RULES)), { rules: DEFAULT_ALERT_RULES, errors: [] });
+  });
+
+  it('validation names every problem and keeps no rules', () => {
+    const { rules, errors } = parseAlertRules(JSON.stringify([{ ...DRY, when: [{ type: 'Moisture', forSeconds: -1 }] }]));
+    assert.deepEqual(rules, []);
+    assert.equal(errors.length, 2);
+  });
+});
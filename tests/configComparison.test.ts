@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigComparison } from '../services/configComparison';
+import { CacheSimulator } from '../services/cacheSimulator';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import {
+  AccessTiming, CacheConfig, InclusionPolicy, MappingType, PrefetcherType, ReplacementPolicy, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+
+const SHELF: CacheConfig = {
+  size: 8,
+  mapping: MappingType.TWO_WAY,
+  policy: ReplacementPolicy.LRU,
+  blockSize: 2,
+  writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+  writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+  seed: 42,
+  prefetcher: PrefetcherType.NONE
+};
+
+const liveShelf = (config: CacheConfig, timing: AccessTiming) => new CacheSimulator({
+  levels: [{ ...config, name: 'Handy Shelf', hitTime: timing.hitTime, inclusion: InclusionPolicy.NINE }],
+  memoryLatency: timing.memoryLatency
+});
+
+describe('ConfigComparison', () => {
+  it('reports the live shelf\'s hit ratio and AMAT for the same setup and times', () => {
+    const timing = { hitTime: 2, memoryLatency: 50 };
+    const comparison = new ConfigComparison([SHELF, { ...SHELF, size: 16 }], timing);
+    const live = liveShelf(SHELF, timing);
+
+    new WorkloadGenerator({ ...DEFAULT_WORKLOAD, seed: 3 }).take(2000).forEach(({ sensor, kind }) => {
+      comparison.access(sensor.address, sensor, kind);
+      live.access(sensor.address, sensor, kind);
+    });
+
+    const [same, bigger] = comparison.getStats();
+    const stats = live.getStats();
+    assert.equal(same.hits, stats.hits);
+    assert.equal(same.writeBacks, stats.memoryWriteBacks);
+    assert.ok(Math.abs(same.amat - stats.amat) < 1e-9);
+    assert.ok(bigger.hitRatio >= same.hitRatio);
+  });
+
+  it('recomputes AMAT from the kept counts when the times change', () => {
+    const comparison = new ConfigComparison([SHELF]);
+    new WorkloadGenerator(DEFAULT_WORKLOAD).take(500).forEach(({ sensor, kind }) => comparison.access(sensor.address, sensor, kind));
+    const before = comparison.getStats()[0];
+
+    const timing = { hitTime: 5, memoryLatency: 300 };
+    comparison.setTiming(timing);
+    const after = comparison.getStats()[0];
+    const live = liveShelf(SHELF, timing);
+    new WorkloadGenerator(DEFAULT_WORKLOAD).take(500).forEach(({ sensor, kind }) => live.access(sensor.address, sensor, kind));
+
+    assert.deepEqual({ ...after, amat: before.amat }, before);
+    assert.ok(Math.abs(after.amat - live.getStats().amat) < 1e-9);
+  });
+
+  it('starts every setup at the cost of going to the warehouse', () => {
+    const comparison = new ConfigComparison([SHELF], { hitTime: 1, memoryLatency: 80 });
+    assert.equal(comparison.getStats()[0].amat, 81);
+  });
+});
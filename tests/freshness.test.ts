@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CacheSimulator } from '../services/cacheSimulator';
+import { FastHierarchy } from '../services/fastHierarchy';
+import { createRandom } from '../services/random';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import {
+  AccessKind, AddressLayout, CacheLevelConfig, FreshnessConfig, FreshnessMode, HierarchyConfig, InclusionPolicy, MappingType,
+  PrefetcherType, ReplacementPolicy, SensorData, WorkloadModel, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+
+const SHELF: CacheLevelConfig = {
+  name: 'Handy Shelf',
+  hitTime: 1,
+  inclusion: InclusionPolicy.NINE,
+  size: 4,
+  mapping: MappingType.FULLY_ASSOCIATIVE,
+  policy: ReplacementPolicy.LRU,
+  blockSize: 1,
+  writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+  writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+  seed: 1
+};
+
+const withGateway = (freshness: FreshnessConfig): HierarchyConfig => ({
+  levels: [{ ...SHELF, freshness }, { ...SHELF, name: 'Gateway Buffer', size: 16, hitTime: 10 }],
+  memoryLatency: 100
+});
+
+const moisture: SensorData = { id: 0, type: 'Moisture', value: 40, unit: '%', timestamp: '', address: 3 };
+
+const readAt = (times: number[], config: HierarchyConfig) => [new CacheSimulator(config), new FastHierarchy(config)].map(sim => {
+  times.forEach(time => sim.access(moisture.address, moisture, AccessKind.READ, time));
+  return sim.getStats();
+});
+
+describe('freshness', () => {
+  it('serves a reading until it expires, then fetches it from the warehouse past the gateway\'s copy', () => {
+    const config = withGateway({ mode: FreshnessMode.EXPIRE, ttl: { Moisture: 60 } });
+    readAt([0, 30_000, 120_000, 121_000], config).forEach(stats => {
+      assert.deepEqual(stats.levelStats, [{ accesses: 4, hits: 2 }, { accesses: 2, hits: 0 }]);
+      assert.deepEqual(stats.freshness, { staleHitsAvoided: 1, refreshes: 0 });
+    });
+  });
+
+  it('leaves types without a time to live cached for good', () => {
+    const config = withGateway({ mode: FreshnessMode.EXPIRE, ttl: { Temperature: 60 } });
+    readAt([0, 3_600_000], config).forEach(stats => {
+      assert.equal(stats.hits, 1);
+      assert.equal(stats.freshness.staleHitsAvoided, 0);
+    });
+  });
+
+  it('refreshes a line read late in its life so it never expires under steady reads', () => {
+    const config = withGateway({ mode: FreshnessMode.REFRESH_AHEAD, ttl: { Moisture: 100 } });
+    readAt([0, 85_000, 150_000], config).forEach(stats => {
+      assert.equal(stats.hits, 2);
+      assert.deepEqual(stats.freshness, { staleHitsAvoided: 0, refreshes: 1 });
+    });
+  });
+});
+
+describe('FastHierarchy', () => {
+  it('matches CacheSimulator on every statistic', () => {
+    const random = createRandom(7);
+    const pick = <T>(options: T[]): T => options[Math.floor(random() * options.length)];
+    for (let n = 0; n < 40; n++) {
+      const shelf: CacheLevelConfig = {
+        ...SHELF,
+        size: pick([4, 8, 16]),
+        mapping: pick(Object.values(MappingType)),
+        policy: pick([ReplacementPolicy.LRU, ReplacementPolicy.FIFO, ReplacementPolicy.LFU, ReplacementPolicy.PLRU, ReplacementPolicy.RANDOM]),
+        blockSize: pick([1, 2, 4]),
+        writeHitPolicy: pick(Object.values(WriteHitPolicy)),
+        writeMissPolicy: pick(Object.values(WriteMissPolicy)),
+        prefetcher: pick(Object.values(PrefetcherType)),
+        freshness: { mode: pick(Object.values(FreshnessMode)), ttl: { Moisture: pick([60, 300]), Temperature: pick([30, 120]), Humidity: 90 } }
+      };
+      const levels = random() < 0.6
+        ? [shelf, { ...shelf, name: 'Gateway Buffer', hitTime: 10, size: pick([16, 32]), mapping: pick(Object.values(MappingType)), inclusion: pick(Object.values(InclusionPolicy)), prefetcher: undefined, freshness: undefined }]
+        : [shelf];
+      const config: HierarchyConfig = { levels, memoryLatency: 100 };
+      const fast = new FastHierarchy(config);
+      const full = new CacheSimulator(config);
+      let now = 0;
+      const workload = { ...DEFAULT_WORKLOAD, model: pick(Object.values(WorkloadModel)), layout: pick(Object.values(AddressLayout)), seed: n };
+      new WorkloadGenerator(workload).take(1500).forEach(({ sensor, kind }) => {
+        now += Math.floor(random() * 10_000);
+        fast.access(sensor.address, sensor, kind, now);
+        full.access(sensor.address, sensor, kind, now);
+      });
+      assert.deepEqual(fast.getStats(), full.getStats(), JSON.stringify(config));
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSweep, simulateTrace } from '../services/batchSimulator';
+import { CacheSimulator } from '../services/cacheSimulator';
+import { addLatency, emptyLatencyStats, latencyPercentile, meanLatency, sampleLatency } from '../services/latencyModel';
+import { createRandom } from '../services/random';
+import { DEFAULT_WORKLOAD, WorkloadGenerator } from '../services/workloadGenerator';
+import {
+  CacheLevelConfig, HierarchyConfig, InclusionPolicy, LatencyDistribution, MappingType, ReplacementPolicy, WriteHitPolicy,
+  WriteMissPolicy
+} from '../types';
+
+const SHELF: CacheLevelConfig = {
+  name: 'Handy Shelf',
+  hitTime: 1,
+  inclusion: InclusionPolicy.NINE,
+  size: 8,
+  mapping: MappingType.FULLY_ASSOCIATIVE,
+  policy: ReplacementPolicy.LRU,
+  blockSize: 1,
+  writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+  writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+  seed: 3
+};
+
+const SPREAD: HierarchyConfig = {
+  levels: [SHELF, { ...SHELF, name: 'Gateway Buffer', size: 32, hitTime: 10, spread: { distribution: LatencyDistribution.NORMAL, deviation: 2 } }],
+  memoryLatency: 100,
+  memorySpread: { distribution: LatencyDistribution.LONG_TAIL, deviation: 80 },
+  latencySeed: 9
+};
+
+const TRACE = new WorkloadGenerator(DEFAULT_WORKLOAD).take(2000);
+
+const run = (config: HierarchyConfig, sim = new CacheSimulator(config), trace = TRACE) => {
+  trace.forEach(({ sensor, kind }) => sim.access(sensor.address, sensor, kind));
+  return sim;
+};
+
+const moments = (draws: number[]) => {
+  const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+  return { mean, deviation: Math.sqrt(draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / draws.length) };
+};
+
+describe('sampleLatency', () => {
+  it('draws nothing for a fixed tier', () => {
+    let draws = 0;
+    const random = () => {
+      draws++;
+      return 0.5;
+    };
+    assert.equal(sampleLatency(10, { distribution: LatencyDistribution.FIXED, deviation: 5 }, random), 10);
+    assert.equal(sampleLatency(10, undefined, random), 10);
+    assert.equal(draws, 0);
+  });
+
+  it('keeps the configured mean and deviation', () => {
+    const random = createRandom(1);
+    const normal = Array.from({ length: 50_000 }, () => sampleLatency(100, { distribution: LatencyDistribution.NORMAL, deviation: 10 }, random));
+    const tail = Array.from({ length: 50_000 }, () => sampleLatency(100, { distribution: LatencyDistribution.LONG_TAIL, deviation: 80 }, random));
+    const n = moments(normal);
+    const t = moments(tail);
+    assert.ok(Math.abs(n.mean - 100) < 1 && Math.abs(n.deviation - 10) < 1, JSON.stringify(n));
+    assert.ok(Math.abs(t.mean - 100) < 3 && Math.abs(t.deviation - 80) < 8, JSON.stringify(t));
+    assert.ok(tail.every(ms => ms > 0));
+  });
+});
+
+describe('latencyPercentile', () => {
+  it('lands within the bucket resolution of the exact percentile', () => {
+    const random = createRandom(2);
+    const draws = Array.from({ length: 20_000 }, () => sampleLatency(100, { distribution: LatencyDistribution.LONG_TAIL, deviation: 80 }, random));
+    const stats = emptyLatencyStats();
+    draws.forEach(ms => addLatency(stats, ms));
+    const sorted = [...draws].sort((a, b) => a - b);
+    for (const percent of [50, 95, 99]) {
+      const exact = sorted[Math.ceil((percent / 100) * sorted.length) - 1];
+      const estimate = latencyPercentile(stats, percent);
+      assert.ok(estimate >= exact && estimate <= exact * 1.05, `p${percent}: ${estimate} vs ${exact}`);
+    }
+    assert.equal(latencyPercentile(stats, 100), stats.max);
+  });
+});
+
+describe('sampled response times', () => {
+  it('average exactly to the AMAT when no tier has a spread', () => {
+    const stats = run({ levels: [SHELF, { ...SHELF, name: 'Gateway Buffer', size: 32, hitTime: 10 }], memoryLatency: 100 }).getStats();
+    assert.ok(Math.abs(meanLatency(stats.latency) - stats.amat) < 1e-9);
+  });
+
+  it('average close to the AMAT when tiers have spreads', () => {
+    const stats = run(SPREAD, undefined, new WorkloadGenerator(DEFAULT_WORKLOAD).take(20_000)).getStats();
+    assert.ok(Math.abs(meanLatency(stats.latency) - stats.amat) / stats.amat < 0.03);
+  });
+
+  it('continue the same stream after a save and load', () => {
+    const whole = run(SPREAD);
+    const first = run(SPREAD, undefined, TRACE.slice(0, 1000));
+    const second = new CacheSimulator(SPREAD);
+    second.load(SPREAD, JSON.parse(JSON.stringify(first.exportState())));
+    run(SPREAD, second, TRACE.slice(1000));
+    assert.deepEqual(second.getStats().levelStats, whole.getStats().levelStats);
+    assert.deepEqual(second.getStats().latency, whole.getStats().latency);
+  });
+
+  it('change with the seed while the cache behaves the same', () => {
+    const base = run(SPREAD).getStats();
+    const other = run({ ...SPREAD, latencySeed: 10 }).getStats();
+    assert.notEqual(other.latency.total, base.latency.total);
+    assert.equal(other.hits, base.hits);
+  });
+});
+
+describe('trace replays', () => {
+  it('report the AMAT the dashboard shows for the same shelf and times', () => {
+    const timing = { hitTime: 2, memoryLatency: 50 };
+    const trace = TRACE.map(({ sensor, kind }) => ({ address: sensor.address, kind }));
+    const live = run({ levels: [{ ...SHELF, hitTime: timing.hitTime }], memoryLatency: timing.memoryLatency }).getStats();
+    assert.ok(Math.abs(simulateTrace(SHELF, trace, timing).amat - live.amat) < 1e-9);
+
+    const [result] = runSweep({
+      sizes: [SHELF.size], mappings: [SHELF.mapping], policies: [SHELF.policy], blockSizes: [SHELF.blockSize],
+      writeHitPolicy: SHELF.writeHitPolicy, writeMissPolicy: SHELF.writeMissPolicy, seed: SHELF.seed, timing
+    }, trace);
+    assert.equal(result.amat, Number(live.amat.toFixed(4)));
+  });
+});
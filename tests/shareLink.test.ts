@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeShareLink, encodeShareLink } from '../services/shareLink';
+import { DEFAULT_ALERT_RULES } from '../services/alertRules';
+import { DEFAULT_ENERGY_COSTS } from '../services/energyModel';
+import { DEFAULT_LATENCY } from '../services/latencyModel';
+import { DEFAULT_WORKLOAD } from '../services/workloadGenerator';
+import {
+  CacheLevelConfig, CoherenceProtocol, FreshnessMode, InclusionPolicy, LatencyDistribution, MappingType, PrefetcherType,
+  ReplacementPolicy, SessionSettings, WorkloadModel, WriteHitPolicy, WriteMissPolicy
+} from '../types';
+
+const GATEWAY: CacheLevelConfig = {
+  name: 'Gateway Buffer',
+  size: 16,
+  mapping: MappingType.FOUR_WAY,
+  policy: ReplacementPolicy.LRU,
+  blockSize: 1,
+  writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+  writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+  seed: 42,
+  hitTime: 10,
+  inclusion: InclusionPolicy.NINE
+};
+
+const BASE: SessionSettings = {
+  cache: {
+    size: 8,
+    mapping: MappingType.DIRECT,
+    policy: ReplacementPolicy.LRU,
+    blockSize: 1,
+    writeHitPolicy: WriteHitPolicy.WRITE_BACK,
+    writeMissPolicy: WriteMissPolicy.WRITE_ALLOCATE,
+    seed: 42,
+    prefetcher: PrefetcherType.NONE
+  },
+  gateway: null,
+  workload: DEFAULT_WORKLOAD,
+  comparison: [],
+  alertRules: DEFAULT_ALERT_RULES,
+  energyCosts: DEFAULT_ENERGY_COSTS,
+  coherence: { gateways: 2, protocol: CoherenceProtocol.MESI },
+  latency: DEFAULT_LATENCY
+};
+
+const SCENARIO: SessionSettings = {
+  ...BASE,
+  cache: {
+    ...BASE.cache,
+    size: 16,
+    mapping: MappingType.FOUR_WAY,
+    policy: ReplacementPolicy.PLRU,
+    blockSize: 4,
+    writeHitPolicy: WriteHitPolicy.WRITE_THROUGH,
+    seed: 7,
+    prefetcher: PrefetcherType.STRIDE,
+    freshness: { mode: FreshnessMode.EXPIRE, ttl: { Moisture: 1800, Temperature: 600, Humidity: 900 } }
+  },
+  gateway: { ...GATEWAY, size: 32, inclusion: InclusionPolicy.EXCLUSIVE, seed: 9 },
+  workload: { ...DEFAULT_WORKLOAD, model: WorkloadModel.ZIPF, seed: 11, skew: 1.2 },
+  energyCosts: { ...DEFAULT_ENERGY_COSTS, radio: 80.5 },
+  coherence: { gateways: 4, protocol: CoherenceProtocol.MSI },
+  latency: {
+    shelf: { distribution: LatencyDistribution.NORMAL, mean: 1.5, deviation: 1e-7 },
+    gateway: { distribution: LatencyDistribution.LONG_TAIL, mean: 12.5, deviation: 3 },
+    warehouse: { distribution: LatencyDistribution.FIXED, mean: 2e21, deviation: 0 },
+    seed: 5
+  }
+};
+
+describe('share links', () => {
+  it('round-trip every setting a link carries', () => {
+    assert.deepEqual(decodeShareLink(encodeShareLink(SCENARIO), BASE, GATEWAY), SCENARIO);
+  });
+
+  it('keep numbers written in exponent notation whole', () => {
+    const link = encodeShareLink(SCENARIO);
+    assert.match(link, /1e-7/);
+    assert.match(link, /2e%2B21/);
+    assert.deepEqual(decodeShareLink(link, BASE, GATEWAY)?.latency, SCENARIO.latency);
+  });
+
+  it('still open links written with the old separator', () => {
+    const decoded = decodeShareLink('#c=8-d-lru-1-wb-wa-42-none&w=zipf-42-48-ring-0.7-1.2-1-0.05-12&h=3-msi', BASE, GATEWAY);
+    assert.deepEqual(decoded?.cache, BASE.cache);
+    assert.deepEqual(decoded?.coherence, { gateways: 3, protocol: CoherenceProtocol.MSI });
+  });
+
+  it('fall back to the base for optional parts a link leaves out', () => {
+    const link = new URLSearchParams(encodeShareLink(SCENARIO));
+    ['g', 'f', 'e', 'h', 'l'].forEach(key => link.delete(key));
+    const decoded = decodeShareLink(link.toString(), BASE, GATEWAY);
+    assert.equal(decoded?.gateway, null);
+    assert.equal(decoded?.cache.freshness, undefined);
+    assert.equal(decoded?.energyCosts, BASE.energyCosts);
+    assert.equal(decoded?.coherence, BASE.coherence);
+    assert.equal(decoded?.latency, BASE.latency);
+  });
+
+  it('reject malformed links as a whole', () => {
+    const link = encodeShareLink(SCENARIO);
+    const broken = [
+      '',
+      link.replace(/c=[^&]*/, 'c=16_4_plru_4_wt_wa_7'),
+      link.replace(/c=16_4_plru_4_wt_wa_7_/, 'c=16_4_plru_4_wt_wa_-1_'),
+      link.replace(/c=16_4_plru_4_wt_wa_7_/, 'c=16_4_plru_4_wt_wa_1.5_'),
+      link.replace(/c=16/, 'c=12'),
+      link.replace(/_9&/, '_1e-3&'),
+      link.replace(/e=0.5/, 'e=-0.5'),
+      link.replace(/l=norm_1.5/, 'l=norm_-1.5'),
+      link.replace(/c=16_4_plru/, 'c=16_4_opt')
+    ];
+    broken.forEach(hash => assert.equal(decodeShareLink(hash, BASE, GATEWAY), null, hash));
+  });
+});
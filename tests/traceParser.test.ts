@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ADDRESS_ONLY_TYPE, formatCsvTrace, parseCsvTrace, parseDinTrace, parseReadingTime, parseTrace } from '../services/traceParser';
+import { AccessKind } from '../types';
+
+describe('parseCsvTrace', () => {
+  it('reads rows with or without a header', () => {
+    const body = '10:42:07,3,Temperature,21.5,12,r\n10:42:09,4,Moisture,40,200,w\n';
+    for (const text of [body, 'timestamp,sensorId,type,value,address,op\n' + body]) {
+      const { records, errors } = parseCsvTrace(text);
+      assert.deepEqual(errors, []);
+      assert.equal(records.length, 2);
+      assert.deepEqual(records[0].sensor, { id: 3, type: 'Temperature', value: 21.5, unit: '°C', timestamp: '10:42:07', address: 12 });
+      assert.equal(records[1].kind, AccessKind.WRITE);
+    }
+  });
+
+  it('keeps a reading time only when the timestamp names a day', () => {
+    const { records } = parseCsvTrace('2024-05-01T10:00:00Z,1,Humidity,55,3,r\n10:00:00,1,Humidity,55,3,r\n1714557600000,1,Humidity,55,3,r\n');
+    assert.equal(records[0].time, Date.parse('2024-05-01T10:00:00Z'));
+    assert.equal(records[1].time, undefined);
+    assert.equal(records[2].time, 1714557600000);
+  });
+
+  it('reports bad rows by line and keeps the good ones', () => {
+    const { records, errors } = parseCsvTrace('t,1,Temperature,20,5,r\nt,x,Temperature,20,5,r\nt,1,Temperature,20,256,r\nt,1,Temperature,20,5,q\nt,1,Temperature\n');
+    assert.equal(records.length, 1);
+    assert.deepEqual(errors.map(e => e.line), [2, 3, 4, 5]);
+    assert.match(errors[1].message, /outside the 256-location memory/);
+  });
+
+  it('round-trips through formatCsvTrace', () => {
+    const { records } = parseCsvTrace('2024-05-01T10:00:00.000Z,7,Humidity,62,99,w\n');
+    assert.deepEqual(parseCsvTrace(formatCsvTrace(records)).records, records);
+  });
+});
+
+describe('parseDinTrace', () => {
+  it('maps labels to reads and writes as address-only records', () => {
+    const { format, records, errors, folded } = parseDinTrace('0 1a\n1 ff\n2 0\n3 10\n');
+    assert.equal(format, 'din');
+    assert.deepEqual(errors, []);
+    assert.equal(folded, 0);
+    assert.deepEqual(records.map(r => [r.sensor.address, r.kind]), [
+      [0x1a, AccessKind.READ], [0xff, AccessKind.WRITE], [0, AccessKind.READ], [0x10, AccessKind.READ]
+    ]);
+    assert.ok(records.every(r => r.sensor.type === ADDRESS_ONLY_TYPE));
+  });
+
+  it('folds full machine addresses into the simulated memory and counts them', () => {
+    const { records, errors, folded } = parseDinTrace('0 7fff1234\n1 0xffffffffffffffab\n0 12\n');
+    assert.deepEqual(errors, []);
+    assert.equal(folded, 2);
+    assert.deepEqual(records.map(r => r.sensor.address), [0x34, 0xab, 0x12]);
+  });
+
+  it('rejects only addresses that are not hex numbers, flushes and unknown labels', () => {
+    const { records, errors } = parseDinTrace('0 zz\n0 -1\n4 10\n9 10\n0\n0 10\n');
+    assert.equal(records.length, 1);
+    assert.deepEqual(errors.map(e => e.line), [1, 2, 3, 4, 5]);
+  });
+});
+
+describe('parseTrace', () => {
+  it('picks the format from the file name', () => {
+    assert.equal(parseTrace('run.DIN', '0 10\n').format, 'din');
+    assert.equal(parseTrace('run.csv', 't,1,Temperature,20,5,r\n').format, 'csv');
+  });
+});
+
+describe('parseReadingTime', () => {
+  it('accepts epoch milliseconds and ISO dates only', () => {
+    assert.equal(parseReadingTime(' 1500 '), 1500);
+    assert.equal(parseReadingTime('2024-05-01'), Date.parse('2024-05-01'));
+    assert.equal(parseReadingTime('10:42:07'), null);
+    assert.equal(parseReadingTime('yesterday'), null);
+  });
+});
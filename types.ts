@@ -1,12 +1,122 @@
 
 export enum MappingType {
   DIRECT = 'Direct Mapped',
-  TWO_WAY = '2-way Set Associative'
+  TWO_WAY = '2-way Set Associative',
+  FOUR_WAY = '4-way Set Associative',
+  EIGHT_WAY = '8-way Set Associative',
+  FULLY_ASSOCIATIVE = 'Fully Associative'
 }
 
 export enum ReplacementPolicy {
   LRU = 'LRU',
-  FIFO = 'FIFO'
+  FIFO = 'FIFO',
+  LFU = 'LFU',
+  RANDOM = 'Random',
+  PLRU = 'Tree-PLRU',
+  OPT = 'OPT (Belady)'
+}
+
+export enum AccessKind {
+  READ = 'Read',
+  WRITE = 'Write'
+}
+
+export enum WriteHitPolicy {
+  WRITE_BACK = 'Write-back',
+  WRITE_THROUGH = 'Write-through'
+}
+
+export enum WriteMissPolicy {
+  WRITE_ALLOCATE = 'Write-allocate',
+  NO_WRITE_ALLOCATE = 'No-write-allocate'
+}
+
+export enum MissType {
+  COMPULSORY = 'Compulsory',
+  CAPACITY = 'Capacity',
+  CONFLICT = 'Conflict'
+}
+
+export interface CacheConfig {
+  size: number;
+  mapping: MappingType;
+  policy: ReplacementPolicy;
+  blockSize: number;
+  writeHitPolicy: WriteHitPolicy;
+  writeMissPolicy: WriteMissPolicy;
+  seed: number; // drives the Random replacement policy
+  prefetcher?: PrefetcherType; // none when absent; only the first level of a hierarchy prefetches
+  freshness?: FreshnessConfig; // off when absent; only the first level of a hierarchy tracks freshness
+}
+
+// Strategies for fetching lines before they are demanded
+export enum PrefetcherType {
+  NONE = 'None',
+  NEXT_LINE = 'Next-line',
+  STRIDE = 'Per-sensor Stride',
+  SCHEDULE = 'Schedule-aware'
+}
+
+// What happens to a cached reading that has outlived its sensor type's time-to-live
+export enum FreshnessMode {
+  OFF = 'Off',
+  EXPIRE = 'Expire',
+  REFRESH_AHEAD = 'Refresh ahead'
+}
+
+export interface FreshnessConfig {
+  mode: FreshnessMode;
+  ttl: Record<string, number>; // seconds per sensor type; missing or 0 never expires
+}
+
+// How a level's contents relate to the levels above it
+export enum InclusionPolicy {
+  INCLUSIVE = 'Inclusive',
+  EXCLUSIVE = 'Exclusive',
+  NINE = 'Non-inclusive (NINE)'
+}
+
+// How one tier's response time varies from access to access
+export enum LatencyDistribution {
+  FIXED = 'Fixed',
+  NORMAL = 'Normal',
+  LONG_TAIL = 'Long-tailed'
+}
+
+export interface LatencySpread {
+  distribution: LatencyDistribution;
+  deviation: number; // ms, standard deviation; ignored when fixed
+}
+
+export interface TierLatency extends LatencySpread {
+  mean: number; // ms
+}
+
+export interface LatencyConfig {
+  shelf: TierLatency;
+  gateway: TierLatency;
+  warehouse: TierLatency;
+  seed: number; // starts the stream response times are drawn from
+}
+
+export interface CacheLevelConfig extends CacheConfig {
+  name: string;
+  hitTime: number;       // ms, the mean when the level has a spread
+  inclusion: InclusionPolicy; // ignored for the first level
+  spread?: LatencySpread; // missing means every lookup takes exactly hitTime
+}
+
+export interface HierarchyConfig {
+  levels: CacheLevelConfig[];
+  memoryLatency: number; // ms, likewise the mean
+  memorySpread?: LatencySpread;
+  latencySeed?: number; // missing draws response times from DEFAULT_SEED
+}
+
+// Mean lookup and main memory times of a lone cache, in ms
+export interface AccessTiming {
+  hitTime: number;
+  memoryLatency: number;
 }
 
 export interface SensorData {
@@ -25,12 +135,334 @@ export interface CacheBlock {
   lastUsed: number;
   insertedAt: number;
   isDirty: boolean;
+  prefetched: boolean; // filled by a prefetch and not demanded since
+  storedAt: number;    // wall-clock ms when the reading was fetched, refreshed or written
+}
+
+export interface AddressBreakdown {
+  address: number;
+  tag: number;
+  index: number;
+  offset: number;
+  tagBits: number;
+  indexBits: number;
+  offsetBits: number;
 }
 
 export interface SimulationResult {
   hit: boolean;
+  kind: AccessKind;
   replacedId: number | null;
+  writeBack: boolean;     // a dirty victim was flushed to the next level
+  evictedAddress: number | null; // first address of the evicted line
+  victimReason: string | null;    // why replacedId was picked
+  memoryWrite: boolean;   // the write itself went straight to the next level
+  missType: MissType | null;
+  prefetchHit: boolean;   // the hit landed on a prefetched line for the first time
+  pollutionMiss: boolean; // the line missed because a prefetch had evicted it
+  staleHitAvoided: boolean; // the line was cached but too old to serve, so it was fetched again
+  refreshed: boolean;     // a hit on a line close to expiry, which was fetched again in the background
   cache: CacheBlock[];
+  breakdown: AddressBreakdown;
+}
+
+export interface HierarchyResult {
+  servedBy: number;         // index of the level that had the line; levels.length means main memory
+  levelHits: boolean[];     // outcome at every level the access reached
+  memoryWriteBacks: number; // dirty lines that ended up in main memory
+  memoryWrites: number;     // stores written through to main memory after a cache hit
+  first: SimulationResult;  // detailed outcome at the first level
+  caches: CacheBlock[][];
+  events: CacheEvent[];     // everything that happened, in order
+}
+
+// Hit and miss carry the demanded address, the rest the line's first address; `level` equal to levels.length means main memory
+export type CacheEvent =
+  | { type: 'hit'; level: number; slot: number; address: number; kind: AccessKind }
+  | { type: 'miss'; level: number; address: number; kind: AccessKind; missType: MissType | null }
+  | { type: 'fill'; level: number; slot: number; address: number }
+  | { type: 'evict'; level: number; slot: number; address: number; dirty: boolean; unusedPrefetch: boolean; expired: boolean }
+  | { type: 'prefetch'; level: number; slot: number; address: number; from: number } // `from` supplied the line
+  | { type: 'refresh'; level: number; slot: number; address: number } // re-read from main memory ahead of expiry
+  | { type: 'write-back'; level: number; address: number }; // `level` receives the dirty line
+
+// First-level activity per slot over the session; residency is counted in readings
+export interface SlotActivity {
+  hits: number;
+  fills: number;       // lines placed here, on demand or by a prefetch
+  evictions: number;
+  residencyTotal: number;
+  residencies: number; // evicted lines whose fill time is known
+}
+
+export interface SetActivity {
+  lookups: number;
+  hits: number;
+  evictions: number;
+  averageResidency: number | null;
+  evictedTypes: Record<string, number>; // sensor type of each evicted line
+}
+
+export interface EvictionRecord {
+  time: number;
+  slot: number;
+  set: number;
+  address: number;            // first address of the evicted line
+  sensorType: string | null;
+  residency: number | null;   // readings it stayed, unknown for lines from a restored session
+  dirty: boolean;
+  expired: boolean;
+  unusedPrefetch: boolean;
+  replacedBy: number | null;  // first address of the line that took the slot; null when nothing did
+}
+
+// Snooping protocols that keep several gateways' copies of a line in agreement
+export enum CoherenceProtocol {
+  MSI = 'MSI',
+  MESI = 'MESI'
+}
+
+export enum CoherenceState {
+  MODIFIED = 'M',
+  EXCLUSIVE = 'E',
+  SHARED = 'S',
+  INVALID = 'I'
+}
+
+export interface CoherenceConfig {
+  gateways: number;
+  protocol: CoherenceProtocol;
+}
+
+// Flush is a modified line written back to memory, on eviction or because another gateway asked for it
+export type BusTransaction = 'BusRd' | 'BusRdX' | 'BusUpgr' | 'Flush';
+
+// One line changing state in one gateway; `address` is the line's first address
+export interface CoherenceTransition {
+  time: number;
+  gateway: number;
+  slot: number;
+  address: number;
+  from: CoherenceState;
+  to: CoherenceState;
+  cause: 'read' | 'write' | 'snoop' | 'evict'; // snoop: another gateway's bus request
+  bus: BusTransaction | null;                  // the request that caused it, if any
+}
+
+export interface CoherenceStats {
+  accesses: number;
+  hits: number;
+  gatewayStats: LevelStats[];
+  bus: Record<BusTransaction, number>;
+  invalidations: number;    // copies dropped because another gateway wrote
+  coherenceMisses: number;  // misses on lines this gateway had lost to an invalidation
+}
+
+export interface LevelStats {
+  accesses: number;
+  hits: number;
+}
+
+export interface AccessRecord {
+  address: number;
+  hit: boolean;
+  kind: AccessKind;
+  servedBy: number;
+  writeBacks: number;
+  missType: MissType | null;
+  breakdown: AddressBreakdown;
+  timestamp: string; // when the reading was taken, as reported by the sensor
+  latency: number;   // ms, sampled response time
+}
+
+export type SimulationEvent = { time: number } & (
+  | CacheEvent
+  | { type: 'access'; record: AccessRecord; data: SensorData | null }
+  | { type: 'reconfigure'; config: HierarchyConfig; cleared: boolean } // cleared: contents and stats were dropped
+);
+
+export interface SimulationStats {
+  accesses: number;
+  hits: number;             // served by the first level
+  hitRatio: number;
+  amat: number;
+  levelStats: LevelStats[];
+  memoryWriteBacks: number;
+  missTypes: MissBreakdown;
+  energy: EnergyCounts;
+  prefetch: PrefetchStats;
+  freshness: FreshnessStats;
+  latency: LatencyStats;
+}
+
+// First-level prefetch outcomes, kept apart from demand hits and misses
+export interface PrefetchStats {
+  issued: number;    // lines filled by a prefetch
+  useful: number;    // prefetched lines later hit by a demand access
+  unused: number;    // prefetched lines evicted before any demand access
+  pollution: number; // demand misses on lines a prefetch had evicted
+}
+
+// First-level time-to-live outcomes
+export interface FreshnessStats {
+  staleHitsAvoided: number; // reads that found their line expired and fetched it again
+  refreshes: number;        // lines fetched again ahead of expiry
+}
+
+// Every sampled response time so far, counted in log-scale buckets (see latencyModel)
+export interface LatencyStats {
+  samples: number;
+  total: number; // ms
+  min: number;
+  max: number;
+  buckets: number[];
+}
+
+// Everything that costs energy, counted over the whole simulation
+export interface EnergyCounts {
+  cacheHits: number;      // lookups that found the line, at any level
+  cacheMisses: number;    // lookups that did not, at any level
+  writeBacks: number;     // dirty lines moved one level down
+  memoryAccesses: number; // fetches, stores and write-backs reaching main memory; each is also one radio transmission
+}
+
+// Energy per event, in microjoules
+export interface EnergyCosts {
+  cacheHit: number;
+  cacheMiss: number;
+  memoryAccess: number;
+  writeBack: number;
+  radio: number;
+}
+
+export interface EnergyReport {
+  readings: number;
+  components: { label: string; microjoules: number }[]; // totals per cost, in EnergyCosts order
+  total: number;            // microjoules
+  perReading: number;
+  baselinePerReading: number; // every reading fetched over the radio, no cache
+  savings: number;          // percent of the baseline energy saved
+}
+
+export interface TraceAccess {
+  address: number;
+  kind: AccessKind;
+  data?: SensorData;
+}
+
+export interface TraceRecord {
+  sensor: SensorData;
+  kind: AccessKind;
+  time?: number; // epoch ms the reading was taken, when its source says; otherwise it is taken as it arrives
+}
+
+// Mattson stack distances of an access stream: how many other lines were used between two uses of the same line
+export interface ReuseProfile {
+  accesses: number;
+  coldMisses: number;   // first use of a line, a miss at every size
+  distances: number[];  // distances[d]: reuses with d other lines used in between
+  distinctLines: number;
+}
+
+export interface MissRatioPoint {
+  size: number;      // slots of a fully-associative, remove-oldest-used shelf
+  missRatio: number; // percent
+}
+
+export interface TraceParseError {
+  line: number;
+  message: string;
+}
+
+export interface TraceParseResult {
+  format: 'csv' | 'din';
+  records: TraceRecord[];
+  errors: TraceParseError[];
+  folded: number; // din addresses past the simulated memory, kept to their low address bits
+}
+
+// Synthetic traffic shapes for the live feed and headless sweeps
+export enum WorkloadModel {
+  ROUND_ROBIN = 'Round-robin Polling',
+  ZIPF = 'Zipf Hot Sensors',
+  SWEEP = 'Sequential Sweep',
+  IRRIGATION = 'Irrigation Bursts'
+}
+
+// How each sensor's reading history is laid out in the address space
+export enum AddressLayout {
+  RING_BUFFER = 'Per-sensor Ring Buffers',
+  TYPE_ARRAYS = 'Per-type Arrays'
+}
+
+export interface Field {
+  id: number;
+  name: string;
+  zoneIds: number[];
+}
+
+export interface FieldZone {
+  id: number;
+  name: string;
+  fieldId: number;
+  nodeIds: number[];
+}
+
+// One station in the ground, carrying up to one sensor of each type
+export interface SensorNode {
+  id: number;
+  name: string;
+  zoneId: number;
+  sensorIds: number[];
+}
+
+export interface FieldSensor {
+  id: number;
+  type: string;
+  nodeId: number;
+  depth: number;        // readings kept before the oldest is overwritten
+}
+
+// Who an address belongs to, and which of the sensor's history slots it is
+export interface SensorLocation {
+  sensor: FieldSensor;
+  node: SensorNode;
+  zone: FieldZone;
+  field: Field;
+  slot: number;
+}
+
+export interface WorkloadConfig {
+  model: WorkloadModel;
+  seed: number;
+  sensorCount: number;  // sensors in the field, three to a node
+  layout: AddressLayout;
+  writeRatio: number;
+  skew: number;         // Zipf exponent; higher means fewer, hotter sensors
+  stride: number;       // addresses advanced per sweep step
+  burstChance: number;  // chance that an irrigation burst starts at any reading
+  burstLength: number;  // readings per burst
+}
+
+export type MissBreakdown = Record<MissType, number>;
+
+export interface TraceStats {
+  accesses: number;
+  hits: number;
+  misses: number;
+  missTypes: MissBreakdown;
+  writeBacks: number;
+  hitRatio: number;
+  amat: number;
+}
+
+export interface ComparisonStats {
+  accesses: number;
+  hits: number;
+  evictions: number;
+  writeBacks: number;
+  hitRatio: number;
+  amat: number;
 }
 
 export interface MetricPoint {
@@ -38,3 +470,75 @@ export interface MetricPoint {
   hitRatio: number;
   amat: number;
 }
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertCategory = 'watering' | 'crop';
+
+// One test on the readings of a sensor type; every test given must pass
+export interface AlertCondition {
+  type: string;           // sensor type, e.g. "Moisture"
+  above?: number;
+  below?: number;
+  risesBy?: number;       // increase over the last `withinSeconds`
+  fallsBy?: number;       // decrease over the last `withinSeconds`
+  withinSeconds?: number; // window for risesBy / fallsBy, 60 if omitted
+  forSeconds?: number;    // the test must have passed continuously this long
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  when: AlertCondition[]; // all must hold at the same node
+}
+
+export interface Alert {
+  id: number;
+  ruleId: string;
+  name: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  node: string;
+  detail: string;         // the readings that tripped the rule
+  raisedAt: number;
+  acknowledgedAt: number | null;
+  clearedAt: number | null;
+}
+
+export type AlertEvent = { type: 'raised' | 'acknowledged' | 'cleared'; alert: Alert };
+
+// Everything the Storage Setup, traffic, comparison, alert and energy panels let you choose
+export interface SessionSettings {
+  cache: CacheConfig;
+  gateway: CacheLevelConfig | null;
+  workload: WorkloadConfig;
+  comparison: CacheConfig[];
+  alertRules: AlertRule[];
+  energyCosts: EnergyCosts;
+  coherence: CoherenceConfig;
+  latency: LatencyConfig;
+}
+
+export interface SimulatorState {
+  caches: CacheBlock[][];
+  stats: SimulationStats;
+  clock: number;
+  latencyDraws?: number; // random numbers response times have used; missing restarts the stream
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+}
+
+export interface SavedSession extends SessionSummary {
+  settings: SessionSettings;
+  simulator: SimulatorState | null; // null starts from empty caches
+  accessHistory: AccessRecord[];
+  metricsHistory: MetricPoint[];
+  sessionTrace: TraceRecord[];
+  lastSensor: SensorData | null;
+}